@@ -0,0 +1,345 @@
+import { jsPDF, GState } from "jspdf";
+import { Matrix, multiply, apply, parseTransform, parsePath, PathSegment } from "./mathsvg";
+
+// Presentation properties copied from the computed style, so the SVG can be drawn once it has left the page
+const STYLE_PROPERTIES = [
+    'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'opacity',
+    'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline', 'display', 'visibility',
+    'marker-start', 'marker-end'
+];
+
+// Elements drawDiagramSvg can't reproduce; SVGs using them are captured as images instead
+const UNSUPPORTED_ELEMENTS = 'image, pattern, linearGradient, radialGradient, mask';
+
+// Elements that are never drawn where they appear
+const SKIPPED_ELEMENTS = ['defs', 'marker', 'style', 'title', 'desc', 'symbol', 'clippath', 'mask', 'metadata', 'script'];
+
+// Bezier handle length for a quarter ellipse, relative to its radius
+const KAPPA = 0.5523;
+
+interface TextStyle {
+    fill: number[];
+    opacity: number;
+    fontSize: number;
+    bold: boolean;
+    italic: boolean;
+    anchor: string;
+    baseline: string;
+}
+
+/**
+ * Whether drawDiagramSvg can draw an SVG as vectors.
+ */
+export function isDrawableSvg(svg: SVGSVGElement): boolean {
+    return !svg.querySelector(UNSUPPORTED_ELEMENTS);
+}
+
+/**
+ * Copies an SVG that is attached to the document, writing each element's computed presentation styles
+ * (from classes and stylesheets) out as attributes. foreignObject labels keep their text, color,
+ * size and alignment in data- attributes.
+ */
+export function inlineSvgStyles(svg: SVGSVGElement): SVGSVGElement {
+    const copy = svg.cloneNode(true) as SVGSVGElement;
+    const originals = [svg, ...Array.from(svg.querySelectorAll('*'))];
+    const copies = [copy, ...Array.from(copy.querySelectorAll('*'))];
+    originals.forEach((original, index) => {
+        const target = copies[index];
+        if (!(original instanceof SVGElement)) return;
+        const style = window.getComputedStyle(original);
+        for (const property of STYLE_PROPERTIES) {
+            const value = style.getPropertyValue(property);
+            if (value) target.setAttribute(property, value);
+        }
+        if (original.tagName.toLowerCase() === 'foreignobject') {
+            const html = original.querySelector('div, span, p') as HTMLElement | null;
+            const textElements = Array.from(original.querySelectorAll('*')).filter(el => el.textContent && el.textContent.trim());
+            const label = textElements.length > 0 ? window.getComputedStyle(textElements[textElements.length - 1]) : style;
+            target.setAttribute('data-text', html ? html.innerText : (original.textContent || ''));
+            target.setAttribute('data-color', label.color);
+            target.setAttribute('data-font-size', label.fontSize);
+            target.setAttribute('data-font-weight', label.fontWeight);
+            target.setAttribute('data-text-align', html ? window.getComputedStyle(html).textAlign : 'center');
+        }
+    });
+    // Without a viewBox, user units are the rendered pixels
+    if (!copy.getAttribute('viewBox')) {
+        const rect = svg.getBoundingClientRect();
+        copy.setAttribute('viewBox', `0 0 ${rect.width} ${rect.height}`);
+    }
+    return copy;
+}
+
+/**
+ * Parses a computed paint or color value to [r, g, b, alpha]; "none", gradients and transparent paint give null.
+ */
+function parsePaint(value: string | null): number[] | null {
+    if (!value || value === 'none' || value.startsWith('url(')) return null;
+    const match = value.match(/rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)/);
+    if (!match) return null;
+    const alpha = match[4] === undefined ? 1 : parseFloat(match[4]) / (match[5] ? 100 : 1);
+    if (alpha === 0) return null;
+    return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]), alpha];
+}
+
+/**
+ * Parses an SVG length in user units; em lengths are relative to the font size.
+ */
+function parseLength(value: string | null, fontSize: number): number {
+    if (!value) return 0;
+    const number = parseFloat(value);
+    if (isNaN(number)) return 0;
+    return /em$/.test(value.trim()) ? number * fontSize : number;
+}
+
+function numberAttribute(el: Element, name: string, fallback: number = 0): number {
+    const value = parseFloat(el.getAttribute(name) || '');
+    return isNaN(value) ? fallback : value;
+}
+
+function rectSegments(x: number, y: number, w: number, h: number, rx: number, ry: number): PathSegment[] {
+    if (rx <= 0 || ry <= 0) {
+        return [{ op: 'm', c: [x, y] }, { op: 'l', c: [x + w, y] }, { op: 'l', c: [x + w, y + h] }, { op: 'l', c: [x, y + h] }, { op: 'h', c: [] }];
+    }
+    rx = Math.min(rx, w / 2); ry = Math.min(ry, h / 2);
+    const kx = rx * KAPPA, ky = ry * KAPPA;
+    return [
+        { op: 'm', c: [x + rx, y] },
+        { op: 'l', c: [x + w - rx, y] },
+        { op: 'c', c: [x + w - rx + kx, y, x + w, y + ry - ky, x + w, y + ry] },
+        { op: 'l', c: [x + w, y + h - ry] },
+        { op: 'c', c: [x + w, y + h - ry + ky, x + w - rx + kx, y + h, x + w - rx, y + h] },
+        { op: 'l', c: [x + rx, y + h] },
+        { op: 'c', c: [x + rx - kx, y + h, x, y + h - ry + ky, x, y + h - ry] },
+        { op: 'l', c: [x, y + ry] },
+        { op: 'c', c: [x, y + ry - ky, x + rx - kx, y, x + rx, y] },
+        { op: 'h', c: [] }
+    ];
+}
+
+function ellipseSegments(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+    const kx = rx * KAPPA, ky = ry * KAPPA;
+    return [
+        { op: 'm', c: [cx + rx, cy] },
+        { op: 'c', c: [cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry] },
+        { op: 'c', c: [cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy] },
+        { op: 'c', c: [cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry] },
+        { op: 'c', c: [cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy] },
+        { op: 'h', c: [] }
+    ];
+}
+
+function pointSegments(points: string | null, close: boolean): PathSegment[] {
+    const values = (points || '').trim().split(/[\s,]+/).filter(v => v).map(parseFloat);
+    const segments: PathSegment[] = [];
+    for (let k = 0; k + 1 < values.length; k += 2) segments.push({ op: segments.length === 0 ? 'm' : 'l', c: [values[k], values[k + 1]] });
+    if (close && segments.length > 0) segments.push({ op: 'h', c: [] });
+    return segments;
+}
+
+/**
+ * Draws an SVG prepared by inlineSvgStyles as PDF vector graphics, fitted into the given box (in mm).
+ * Supports shapes, paths with markers (arrowheads), text and the text of foreignObject labels.
+ */
+export function drawDiagramSvg(doc: jsPDF, svg: SVGSVGElement, x: number, y: number, width: number, height: number, fontName: string) {
+    const viewBox = (svg.getAttribute('viewBox') || '').split(/[\s,]+/).map(parseFloat);
+    if (viewBox.length !== 4 || !(viewBox[2] > 0) || !(viewBox[3] > 0)) return;
+    // Centered in the box, as with the default preserveAspectRatio
+    const scale = Math.min(width / viewBox[2], height / viewBox[3]);
+    const root: Matrix = [scale, 0, 0, scale, x + (width - viewBox[2] * scale) / 2 - viewBox[0] * scale, y + (height - viewBox[3] * scale) / 2 - viewBox[1] * scale];
+
+    const matrixScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+    const setOpacity = (fillAlpha: number, strokeAlpha: number) => {
+        if (fillAlpha < 1 || strokeAlpha < 1) doc.setGState(new GState({ opacity: fillAlpha, 'stroke-opacity': strokeAlpha }));
+    };
+
+    const drawShape = (segments: PathSegment[], m: Matrix, el: Element, opacity: number) => {
+        const fill = parsePaint(el.getAttribute('fill'));
+        const stroke = parsePaint(el.getAttribute('stroke'));
+        const strokeWidth = numberAttribute(el, 'stroke-width', 1);
+        const hasStroke = !!stroke && strokeWidth > 0;
+        if (segments.length === 0 || (!fill && !hasStroke)) return;
+        const transformed = segments.map(s => {
+            const c: number[] = [];
+            for (let k = 0; k < s.c.length; k += 2) c.push(...apply(m, s.c[k], s.c[k + 1]));
+            return { op: s.op, c };
+        });
+
+        doc.saveGraphicsState();
+        setOpacity(fill ? fill[3] * numberAttribute(el, 'fill-opacity', 1) * opacity : 1, stroke ? stroke[3] * numberAttribute(el, 'stroke-opacity', 1) * opacity : 1);
+        if (fill) doc.setFillColor(fill[0], fill[1], fill[2]);
+        if (stroke && hasStroke) {
+            const s = matrixScale(m);
+            doc.setDrawColor(stroke[0], stroke[1], stroke[2]);
+            doc.setLineWidth(strokeWidth * s);
+            const dashes = (el.getAttribute('stroke-dasharray') || 'none').split(/[\s,]+/).map(parseFloat).filter(d => !isNaN(d));
+            // Patterns without gaps (Mermaid uses "1, 0" for solid lines) are drawn solid
+            if (dashes.length > 0 && dashes.some((d, k) => k % 2 === 1 && d > 0)) doc.setLineDashPattern(dashes.map(d => d * s), 0);
+        }
+        doc.path(transformed);
+        if (fill && hasStroke) doc.fillStroke();
+        else if (fill) doc.fill();
+        else doc.stroke();
+        doc.restoreGraphicsState();
+    };
+
+    const drawMarkers = (segments: PathSegment[], m: Matrix, el: Element, opacity: number) => {
+        const points = segments.filter(s => s.op !== 'h');
+        if (points.length < 2) return;
+        for (const position of ['start', 'end']) {
+            const reference = (el.getAttribute(`marker-${position}`) || '').match(/url\(\s*["']?#([^"')]+)/);
+            const marker = reference ? svg.querySelector(`[id="${reference[1]}"]`) : null;
+            if (!marker) continue;
+
+            // Vertex and direction of the path at the marker
+            let vertex: number[], from: number[], to: number[];
+            if (position === 'start') {
+                vertex = points[0].c.slice(0, 2);
+                from = vertex;
+                to = points[1].c.slice(0, 2);
+                if (to[0] === from[0] && to[1] === from[1]) to = points[1].c.slice(-2);
+            } else {
+                const last = points[points.length - 1];
+                vertex = last.c.slice(-2);
+                to = vertex;
+                from = last.op === 'c' ? last.c.slice(2, 4) : points[points.length - 2].c.slice(-2);
+                if (to[0] === from[0] && to[1] === from[1]) from = points[points.length - 2].c.slice(-2);
+            }
+            const orient = marker.getAttribute('orient') || '0';
+            let angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+            if (orient === 'auto-start-reverse' && position === 'start') angle += Math.PI;
+            else if (!orient.startsWith('auto')) angle = (parseFloat(orient) || 0) * Math.PI / 180;
+
+            const units = marker.getAttribute('markerUnits') === 'userSpaceOnUse' ? 1 : numberAttribute(el, 'stroke-width', 1);
+            const markerBox = (marker.getAttribute('viewBox') || '').split(/[\s,]+/).map(parseFloat);
+            let boxScale = 1;
+            if (markerBox.length === 4 && markerBox[2] > 0 && markerBox[3] > 0) {
+                boxScale = Math.min(numberAttribute(marker, 'markerWidth', 3) / markerBox[2], numberAttribute(marker, 'markerHeight', 3) / markerBox[3]);
+            }
+            const cos = Math.cos(angle), sin = Math.sin(angle), size = units * boxScale;
+            const markerMatrix = multiply(m, multiply([cos, sin, -sin, cos, vertex[0], vertex[1]], [size, 0, 0, size, -numberAttribute(marker, 'refX') * size, -numberAttribute(marker, 'refY') * size]));
+            for (const child of Array.from(marker.children)) drawElement(child, markerMatrix, opacity);
+        }
+    };
+
+    /**
+     * Draws a string at (tx, ty) in the coordinates of m; returns its advance in those coordinates.
+     */
+    const drawString = (text: string, m: Matrix, tx: number, ty: number, style: TextStyle): number => {
+        if (!text) return 0;
+        const s = matrixScale(m);
+        doc.setFont(fontName, style.bold && style.italic ? 'bolditalic' : (style.bold ? 'bold' : (style.italic ? 'italic' : 'normal')));
+        doc.setFontSize(style.fontSize * s / 0.352778);
+        const advance = doc.getTextWidth(text) / s;
+        if (!text.trim()) return advance;
+
+        let shiftX = style.anchor === 'middle' ? -advance / 2 : (style.anchor === 'end' ? -advance : 0);
+        let shiftY = 0;
+        if (style.baseline === 'central' || style.baseline === 'middle') shiftY = 0.35 * style.fontSize;
+        else if (style.baseline === 'hanging' || style.baseline === 'text-before-edge') shiftY = 0.8 * style.fontSize;
+        else if (style.baseline === 'text-after-edge' || style.baseline === 'ideographic') shiftY = -0.2 * style.fontSize;
+        const [px, py] = apply(m, tx + shiftX, ty + shiftY);
+        const angle = Math.atan2(m[1], m[0]) * 180 / Math.PI;
+
+        doc.saveGraphicsState();
+        setOpacity(style.fill[3] * style.opacity, 1);
+        doc.setTextColor(style.fill[0], style.fill[1], style.fill[2]);
+        if (Math.abs(angle) > 0.01) doc.text(text, px, py, { angle: -angle });
+        else doc.text(text, px, py);
+        doc.restoreGraphicsState();
+        return advance;
+    };
+
+    const textStyle = (el: Element, opacity: number): TextStyle | null => {
+        const fill = parsePaint(el.getAttribute('fill'));
+        if (!fill) return null;
+        const weight = el.getAttribute('font-weight') || '';
+        return {
+            fill, opacity: opacity * numberAttribute(el, 'fill-opacity', 1),
+            fontSize: numberAttribute(el, 'font-size', 16),
+            bold: weight === 'bold' || parseInt(weight) >= 600,
+            italic: el.getAttribute('font-style') === 'italic',
+            anchor: el.getAttribute('text-anchor') || 'start',
+            baseline: el.getAttribute('dominant-baseline') || 'auto'
+        };
+    };
+
+    // Text position carried through a text element and its (nested) tspans
+    const drawTextContent = (el: Element, m: Matrix, position: number[], opacity: number) => {
+        const style = textStyle(el, opacity);
+        const fontSize = numberAttribute(el, 'font-size', 16);
+        if (el.hasAttribute('x')) position[0] = numberAttribute(el, 'x');
+        if (el.hasAttribute('y')) position[1] = numberAttribute(el, 'y');
+        position[0] += parseLength(el.getAttribute('dx'), fontSize);
+        position[1] += parseLength(el.getAttribute('dy'), fontSize);
+        for (const node of Array.from(el.childNodes)) {
+            if (node.nodeType === Node.TEXT_NODE) {
+                if (style) position[0] += drawString((node.textContent || '').replace(/\s+/g, ' '), m, position[0], position[1], style);
+            } else if (node instanceof Element && node.tagName.toLowerCase() === 'tspan' && node.getAttribute('display') !== 'none') {
+                drawTextContent(node, m, position, opacity);
+            }
+        }
+    };
+
+    const drawElement = (el: Element, m: Matrix, inheritedOpacity: number) => {
+        const tag = el.tagName.toLowerCase();
+        if (SKIPPED_ELEMENTS.includes(tag) || el.getAttribute('display') === 'none') return;
+        const local = multiply(m, parseTransform(el.getAttribute('transform')));
+        const opacity = inheritedOpacity * numberAttribute(el, 'opacity', 1);
+        const visible = el.getAttribute('visibility') !== 'hidden';
+
+        if (tag === 'g' || tag === 'a' || tag === 'svg' || tag === 'switch') {
+            // Nested <svg> elements are positioned by their x and y
+            const offset = tag === 'svg' ? multiply(local, [1, 0, 0, 1, numberAttribute(el, 'x'), numberAttribute(el, 'y')]) : local;
+            for (const child of Array.from(el.children)) drawElement(child, offset, opacity);
+        } else if (tag === 'use') {
+            const href = el.getAttribute('href') || el.getAttribute('xlink:href') || '';
+            const target = href.startsWith('#') ? svg.querySelector(`[id="${href.substring(1)}"]`) : null;
+            const offset = multiply(local, [1, 0, 0, 1, numberAttribute(el, 'x'), numberAttribute(el, 'y')]);
+            if (target && target.tagName.toLowerCase() === 'symbol') for (const child of Array.from(target.children)) drawElement(child, offset, opacity);
+            else if (target) drawElement(target, offset, opacity);
+        } else if (!visible) {
+            return;
+        } else if (tag === 'path' || tag === 'line' || tag === 'polyline' || tag === 'polygon') {
+            let segments: PathSegment[];
+            if (tag === 'path') segments = parsePath(el.getAttribute('d') || '');
+            else if (tag === 'line') segments = [{ op: 'm', c: [numberAttribute(el, 'x1'), numberAttribute(el, 'y1')] }, { op: 'l', c: [numberAttribute(el, 'x2'), numberAttribute(el, 'y2')] }];
+            else segments = pointSegments(el.getAttribute('points'), tag === 'polygon');
+            drawShape(segments, local, el, opacity);
+            drawMarkers(segments, local, el, opacity);
+        } else if (tag === 'rect') {
+            const rx = el.hasAttribute('rx') ? numberAttribute(el, 'rx') : numberAttribute(el, 'ry');
+            const ry = el.hasAttribute('ry') ? numberAttribute(el, 'ry') : rx;
+            drawShape(rectSegments(numberAttribute(el, 'x'), numberAttribute(el, 'y'), numberAttribute(el, 'width'), numberAttribute(el, 'height'), rx, ry), local, el, opacity);
+        } else if (tag === 'circle' || tag === 'ellipse') {
+            const rx = tag === 'circle' ? numberAttribute(el, 'r') : numberAttribute(el, 'rx');
+            const ry = tag === 'circle' ? rx : numberAttribute(el, 'ry');
+            if (rx > 0 && ry > 0) drawShape(ellipseSegments(numberAttribute(el, 'cx'), numberAttribute(el, 'cy'), rx, ry), local, el, opacity);
+        } else if (tag === 'text') {
+            drawTextContent(el, local, [0, 0], opacity);
+        } else if (tag === 'foreignobject') {
+            // HTML labels (Mermaid's default) become centered lines of text in the object's box
+            const lines = (el.getAttribute('data-text') || '').split('\n').map(line => line.trim()).filter(line => line);
+            const fill = parsePaint(el.getAttribute('data-color'));
+            if (lines.length === 0 || !fill) return;
+            const fontSize = parseFloat(el.getAttribute('data-font-size') || '') || 16;
+            const weight = el.getAttribute('data-font-weight') || '';
+            const align = el.getAttribute('data-text-align') || 'center';
+            const anchor = align === 'left' || align === 'start' ? 'start' : (align === 'right' || align === 'end' ? 'end' : 'middle');
+            const style: TextStyle = { fill, opacity, fontSize, bold: parseInt(weight) >= 600 || weight === 'bold', italic: false, anchor, baseline: 'auto' };
+            const boxX = numberAttribute(el, 'x'), boxWidth = numberAttribute(el, 'width');
+            const lineX = anchor === 'start' ? boxX : (anchor === 'end' ? boxX + boxWidth : boxX + boxWidth / 2);
+            const lineHeight = fontSize * 1.5;
+            let baseline = numberAttribute(el, 'y') + (numberAttribute(el, 'height') - lines.length * lineHeight) / 2 + lineHeight / 2 + 0.35 * fontSize;
+            for (const line of lines) {
+                drawString(line, local, lineX, baseline, style);
+                baseline += lineHeight;
+            }
+        }
+    };
+
+    doc.saveGraphicsState();
+    drawElement(svg, root, 1);
+    doc.restoreGraphicsState();
+}
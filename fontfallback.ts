@@ -0,0 +1,218 @@
+import { jsPDF } from "jspdf";
+
+// Characters beyond ASCII and Latin-1 that the standard PDF fonts (helvetica, times, courier) have, in WinAnsiEncoding
+const WIN_ANSI_EXTRA = new Set([
+    0x20ac, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x017d,
+    0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x017e, 0x0178
+]);
+
+// Hebrew, Arabic and the other right-to-left scripts, with their presentation forms
+export const RTL_REGEX = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/;
+
+// The first character with a strong direction decides the direction of a line
+const STRONG_CHARACTER_REGEX = /[A-Za-z\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/;
+
+// Chinese and Japanese are written without spaces, so each character is a word of its own when wrapping
+const CJK_CLASS = '\\u2e80-\\u9fff\\uf900-\\ufaff\\uff00-\\uffef';
+
+/**
+ * Splits text into words and whitespace, keeping both (for split with a capture group).
+ */
+export const WORD_SPLIT_REGEX = new RegExp(`(\\s+|[${CJK_CLASS}])`);
+
+const WRAP_TOKEN_REGEX = new RegExp(`\\s+|[${CJK_CLASS}]|[^\\s${CJK_CLASS}]+`, 'g');
+
+const EMOJI_REGEX = /\p{Extended_Pictographic}|[\u{1f1e6}-\u{1f1ff}]/u;
+
+// Code points that only modify the emoji before them: joiner, variation selectors, skin tones, keycap and tags
+const EMOJI_MODIFIER_REGEX = /[\u200d\ufe0e\ufe0f\u20e3\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]/u;
+
+// Runs drawn as an image instead of with a font
+const EMOJI = 'emoji';
+
+interface TextRun {
+    text: string;
+    font: any;
+}
+
+export interface FontFallback {
+    // Characters that no font had a glyph for
+    missing: Set<string>;
+}
+
+const emojiImages = new Map<string, { data: string, ratio: number } | null>();
+
+/**
+ * Draws emoji with the system's color emoji font into a PNG, with the baseline 1 em from the top.
+ * ratio is the image width in ems.
+ */
+function renderEmoji(text: string): { data: string, ratio: number } | null {
+    const cached = emojiImages.get(text);
+    if (cached !== undefined) return cached;
+    const size = 64;
+    const font = `${size}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    let image: { data: string, ratio: number } | null = null;
+    if (context) {
+        context.font = font;
+        const width = Math.max(1, Math.ceil(context.measureText(text).width));
+        canvas.width = width;
+        canvas.height = Math.ceil(size * 1.25);
+        // Resizing the canvas resets its state
+        context.font = font;
+        context.fillText(text, 0, size);
+        image = { data: canvas.toDataURL('image/png'), ratio: width / size };
+    }
+    emojiImages.set(text, image);
+    return image;
+}
+
+/**
+ * Whether a font has a glyph for a code point. jsPDF only maps the Basic Multilingual Plane.
+ */
+function hasGlyph(font: any, code: number): boolean {
+    if (font.isStandardFont) return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRA.has(code);
+    const cmap = font.metadata && font.metadata.cmap && font.metadata.cmap.unicode;
+    return !!cmap && code <= 0xffff && cmap.codeMap[code] > 0;
+}
+
+/**
+ * Makes the document's text drawing and measuring pick a font per character run: the current font where
+ * it has the glyph, otherwise the first fallback family (registered in the normal style) that has it.
+ * Emoji no font covers are drawn as images. Lines with right-to-left text are shaped and reordered
+ * once as a whole before they are split into runs, also when the current font covers all of them.
+ */
+export function installFontFallback(doc: jsPDF, fallbackFamilies: string[]): FontFallback {
+    const api = doc as any;
+    const result: FontFallback = { missing: new Set() };
+    const fallbacks = fallbackFamilies.map(family => api.internal.getFont(family, 'normal'));
+    const originalText = doc.text.bind(doc);
+    const originalCharWidths = api.getCharWidthsArray.bind(doc);
+    const originalUnitWidth = api.getStringUnitWidth.bind(doc);
+    const originalSplit = doc.splitTextToSize.bind(doc);
+    const BidiEngine = (jsPDF as any).__bidiEngine__;
+
+    const isBlank = (char: string) => /\s/.test(char) || (char.codePointAt(0) || 0) < 0x20;
+
+    const needsFallback = (text: string, font: any) => {
+        for (const char of text) {
+            if (!isBlank(char) && !hasGlyph(font, char.codePointAt(0) || 0)) return true;
+        }
+        return false;
+    };
+
+    // Splits text into runs of one font; whitespace stays with the run it is in
+    const toRuns = (text: string, current: any): TextRun[] => {
+        const runs: TextRun[] = [];
+        let afterJoiner = false;
+        for (const char of text) {
+            const code = char.codePointAt(0) || 0;
+            const last = runs.length > 0 ? runs[runs.length - 1] : null;
+            let font: any;
+            if (isBlank(char)) font = last && last.font !== EMOJI ? last.font : current;
+            else if (last && last.font === EMOJI && (afterJoiner || EMOJI_MODIFIER_REGEX.test(char))) font = EMOJI;
+            else if (hasGlyph(current, code)) font = current;
+            else {
+                font = fallbacks.find(fallback => hasGlyph(fallback, code));
+                if (!font && EMOJI_REGEX.test(char)) font = EMOJI;
+                if (!font) { result.missing.add(char); font = current; }
+            }
+            afterJoiner = char === '\u200d';
+            if (last && last.font === font) last.text += char;
+            else runs.push({ text: char, font });
+        }
+        return runs;
+    };
+
+    // Widths in ems per UTF-16 code unit, as jsPDF's getCharWidthsArray returns them
+    const charWidths = (text: string, options?: any): number[] => {
+        const current = api.internal.getFont();
+        if ((options && options.font) || !needsFallback(text, current)) return originalCharWidths(text, options);
+        const widths: number[] = [];
+        for (const run of toRuns(text, current)) {
+            if (run.font === EMOJI) {
+                const image = renderEmoji(run.text);
+                widths.push(image ? image.ratio : 1);
+                for (let k = 1; k < run.text.length; k++) widths.push(0);
+            } else {
+                widths.push(...originalCharWidths(run.text, { ...options, font: run.font }));
+            }
+        }
+        return widths;
+    };
+
+    const drawLine = (line: string, x: number, y: number, align: string | undefined, options: any) => {
+        const current = api.internal.getFont();
+        let visual = line;
+        if (RTL_REGEX.test(line)) {
+            const strong = line.match(STRONG_CHARACTER_REGEX);
+            const bidi = new BidiEngine({ isInputVisual: false, isOutputVisual: true, isInputRtl: !!strong && RTL_REGEX.test(strong[0]) });
+            visual = bidi.doBidiReorder(api.processArabic(line));
+        }
+        const runs = toRuns(visual, current);
+        const fontSize = api.internal.getFontSize() / api.internal.scaleFactor;
+        const runWidth = (run: TextRun) => {
+            if (run.font === EMOJI) { const image = renderEmoji(run.text); return (image ? image.ratio : 1) * fontSize; }
+            return originalUnitWidth(run.text, { font: run.font }) * fontSize;
+        };
+        const widths = runs.map(runWidth);
+        const total = widths.reduce((sum, width) => sum + width, 0);
+        let cursor = align === 'center' ? x - total / 2 : (align === 'right' ? x - total : x);
+
+        runs.forEach((run, index) => {
+            if (run.font === EMOJI) {
+                const image = renderEmoji(run.text);
+                if (image) doc.addImage(image.data, 'PNG', cursor, y - fontSize, widths[index], fontSize * 1.25, `emoji-${run.text}`);
+            } else {
+                doc.setFont(run.font.fontName, run.font.fontStyle);
+                // Already in visual order: stop jsPDF from reordering the run again
+                originalText(run.text, cursor, y, { ...options, isInputVisual: true, isOutputVisual: true });
+            }
+            cursor += widths[index];
+        });
+        doc.setFont(current.fontName, current.fontStyle);
+    };
+
+    api.getCharWidthsArray = charWidths;
+
+    api.getStringUnitWidth = function (text: string, options?: any) {
+        if ((options && options.font) || !needsFallback(text, api.internal.getFont())) return originalUnitWidth(text, options);
+        return charWidths(text, options).reduce((sum, width) => sum + width, 0);
+    };
+
+    doc.splitTextToSize = function (text: string | string[], maxWidth: number, options?: any) {
+        const paragraphs = Array.isArray(text) ? text : String(text).split(/\r?\n/);
+        if ((options && options.font) || !paragraphs.some(p => needsFallback(p, api.internal.getFont()))) return originalSplit(text, maxWidth, options);
+        const size = ((options && options.fontSize) || api.internal.getFontSize()) / api.internal.scaleFactor;
+        const lines: string[] = [];
+        for (const paragraph of paragraphs) {
+            let line = '';
+            for (const token of paragraph.match(WRAP_TOKEN_REGEX) || []) {
+                if (line.trim() && api.getStringUnitWidth((line + token).replace(/\s+$/, '')) * size > maxWidth) {
+                    lines.push(line.replace(/\s+$/, ''));
+                    line = token.trim() ? token : '';
+                } else {
+                    line += token;
+                }
+            }
+            lines.push(line.replace(/\s+$/, ''));
+        }
+        return lines;
+    };
+
+    doc.text = function (text: any, x: number, y: number, options?: any, transform?: any) {
+        const current = api.internal.getFont();
+        const lines: any[] = Array.isArray(text) ? text : String(text).split(/\r?\n/);
+        if ((options && options.angle) || lines.some(line => typeof line !== 'string') || !lines.some(line => RTL_REGEX.test(line) || needsFallback(line, current))) {
+            return originalText(text, x, y, options, transform);
+        }
+        const { maxWidth, align, ...rest } = options || {} as any;
+        const wrapped: string[] = maxWidth ? lines.reduce((all: string[], line: string) => all.concat(doc.splitTextToSize(line, maxWidth)), []) : lines;
+        const lineHeight = api.internal.getFontSize() * api.getLineHeightFactor() / api.internal.scaleFactor;
+        wrapped.forEach((line, index) => drawLine(line, x, y + index * lineHeight, align, rest));
+        return doc;
+    };
+
+    return result;
+}
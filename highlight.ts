@@ -0,0 +1,263 @@
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'function' | 'tag' | 'property';
+
+export interface CodeToken {
+    text: string;
+    type: CodeTokenType;
+}
+
+/**
+ * Tokenizer state carried from one line to the next (block comments can span lines).
+ */
+export interface HighlightState {
+    blockCommentEnd: string | null;
+}
+
+interface LanguageSpec {
+    keywords: Set<string>;
+    literals: Set<string>;
+    lineComments: string[];
+    blockComments: [string, string][];
+    quotes: string[];
+    markup?: boolean;
+    keyValue?: boolean;
+}
+
+// Token types that map onto Obsidian's --code-* CSS variables
+export const CODE_TOKEN_VARIABLES: Record<Exclude<CodeTokenType, 'plain'>, string> = {
+    keyword: '--code-keyword',
+    string: '--code-string',
+    comment: '--code-comment',
+    number: '--code-value',
+    function: '--code-function',
+    tag: '--code-tag',
+    property: '--code-property'
+};
+
+export const DEFAULT_CODE_COLORS: { light: Record<string, number[]>, dark: Record<string, number[]> } = {
+    light: {
+        keyword: [215, 58, 73], string: [3, 47, 98], comment: [106, 115, 125], number: [0, 92, 197],
+        function: [111, 66, 193], tag: [34, 134, 58], property: [0, 92, 197]
+    },
+    dark: {
+        keyword: [255, 123, 114], string: [165, 214, 255], comment: [139, 148, 158], number: [121, 192, 255],
+        function: [210, 168, 255], tag: [126, 231, 135], property: [121, 192, 255]
+    }
+};
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(w => w.length > 0));
+
+const C_LIKE_COMMENTS = { lineComments: ['//'], blockComments: [['/*', '*/']] as [string, string][] };
+
+const JS_KEYWORDS = words(`
+    break case catch class const continue debugger default delete do else export extends finally for from function
+    if import in instanceof let new of return static super switch this throw try typeof var void while with yield
+    async await as interface type enum implements private protected public readonly declare namespace abstract keyof
+`);
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+    javascript: { keywords: JS_KEYWORDS, literals: words('true false null undefined NaN Infinity'), quotes: ['"', "'", '`'], ...C_LIKE_COMMENTS },
+    python: {
+        keywords: words(`and as assert async await break class continue def del elif else except finally for from global
+            if import in is lambda nonlocal not or pass raise return try while with yield match case`),
+        literals: words('True False None'), lineComments: ['#'], blockComments: [['"""', '"""'], ["'''", "'''"]], quotes: ['"', "'"]
+    },
+    bash: {
+        keywords: words(`if then else elif fi for while until do done case esac in function return local export
+            readonly declare unset shift exit source alias echo cd sudo`),
+        literals: words('true false'), lineComments: ['#'], blockComments: [], quotes: ['"', "'"]
+    },
+    java: {
+        keywords: words(`abstract assert break case catch class const continue default do else enum extends final finally
+            for goto if implements import instanceof interface native new package private protected public return static
+            super switch synchronized this throw throws transient try void volatile while var record boolean byte char
+            double float int long short`),
+        literals: words('true false null'), quotes: ['"', "'"], ...C_LIKE_COMMENTS
+    },
+    c: {
+        keywords: words(`auto break case char const continue default do double else enum extern float for goto if inline int
+            long register return short signed sizeof static struct switch typedef union unsigned void volatile while
+            class namespace template typename public private protected virtual override new delete using try catch throw
+            bool auto constexpr nullptr #include #define #ifdef #ifndef #endif #pragma`),
+        literals: words('true false NULL nullptr'), quotes: ['"', "'"], ...C_LIKE_COMMENTS
+    },
+    csharp: {
+        keywords: words(`abstract as base bool break byte case catch char checked class const continue decimal default
+            delegate do double else enum event explicit extern finally fixed float for foreach goto if implicit in int
+            interface internal is lock long namespace new object operator out override params private protected public
+            readonly ref return sbyte sealed short sizeof static string struct switch this throw try typeof uint ulong
+            unchecked unsafe ushort using var virtual void volatile while async await`),
+        literals: words('true false null'), quotes: ['"', "'"], ...C_LIKE_COMMENTS
+    },
+    go: {
+        keywords: words(`break case chan const continue default defer else fallthrough for func go goto if import interface
+            map package range return select struct switch type var`),
+        literals: words('true false nil iota'), quotes: ['"', "'", '`'], ...C_LIKE_COMMENTS
+    },
+    rust: {
+        keywords: words(`as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod
+            move mut pub ref return self Self static struct super trait type unsafe use where while`),
+        literals: words('true false None Some Ok Err'), quotes: ['"'], ...C_LIKE_COMMENTS
+    },
+    php: {
+        keywords: words(`abstract and as break case catch class const continue declare default do echo else elseif
+            extends final finally fn for foreach function global if implements include interface namespace new or
+            private protected public require return static switch throw trait try use var while yield`),
+        literals: words('true false null TRUE FALSE NULL'), lineComments: ['//', '#'], blockComments: [['/*', '*/']], quotes: ['"', "'"]
+    },
+    ruby: {
+        keywords: words(`alias and begin break case class def defined? do else elsif end ensure for if in module next not or
+            redo rescue retry return self super then undef unless until when while yield require attr_accessor`),
+        literals: words('true false nil'), lineComments: ['#'], blockComments: [['=begin', '=end']], quotes: ['"', "'"]
+    },
+    kotlin: {
+        keywords: words(`as break class continue do else for fun if in interface is object package return super this throw
+            try typealias val var when while by constructor data enum import init override private protected public
+            sealed suspend companion`),
+        literals: words('true false null'), quotes: ['"', "'"], ...C_LIKE_COMMENTS
+    },
+    swift: {
+        keywords: words(`associatedtype class deinit enum extension func import init inout internal let operator private
+            protocol public static struct subscript typealias var break case continue default defer do else fallthrough
+            for guard if in repeat return switch where while as catch is rethrows throw throws try async await`),
+        literals: words('true false nil self'), quotes: ['"'], ...C_LIKE_COMMENTS
+    },
+    sql: {
+        keywords: words(`select from where and or not insert into values update set delete create table drop alter add
+            join left right inner outer full on as group by order having limit offset distinct union all in is like
+            between case when then else end primary key foreign references index view default exists count sum avg min max`),
+        literals: words('null true false'), lineComments: ['--'], blockComments: [['/*', '*/']], quotes: ["'", '"']
+    },
+    css: {
+        keywords: words('@media @import @font-face @keyframes @supports !important'),
+        literals: words(''), lineComments: [], blockComments: [['/*', '*/']], quotes: ['"', "'"], keyValue: true
+    },
+    json: { keywords: words(''), literals: words('true false null'), lineComments: [], blockComments: [], quotes: ['"'], keyValue: true },
+    yaml: { keywords: words(''), literals: words('true false null yes no on off ~'), lineComments: ['#'], blockComments: [], quotes: ['"', "'"], keyValue: true },
+    markup: { keywords: words(''), literals: words(''), lineComments: [], blockComments: [['<!--', '-->']], quotes: ['"', "'"], markup: true }
+};
+
+const ALIASES: Record<string, string> = {
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', tsx: 'javascript', typescript: 'javascript',
+    py: 'python', python3: 'python',
+    sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash', powershell: 'bash', ps1: 'bash',
+    cpp: 'c', 'c++': 'c', cc: 'c', h: 'c', hpp: 'c', objc: 'c',
+    cs: 'csharp', 'c#': 'csharp',
+    golang: 'go', rs: 'rust', rb: 'ruby', kt: 'kotlin', kts: 'kotlin',
+    scss: 'css', sass: 'css', less: 'css',
+    yml: 'yaml', toml: 'yaml', ini: 'yaml',
+    html: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+    mysql: 'sql', postgresql: 'sql', sqlite: 'sql'
+};
+
+export function getLanguageSpec(language: string): LanguageSpec | null {
+    const key = language.toLowerCase();
+    return LANGUAGES[key] || LANGUAGES[ALIASES[key]] || null;
+}
+
+export function createHighlightState(): HighlightState {
+    return { blockCommentEnd: null };
+}
+
+/**
+ * Splits one source line into coloured tokens. Unknown languages return a single plain token.
+ */
+export function highlightLine(line: string, language: string, state: HighlightState): CodeToken[] {
+    const spec = getLanguageSpec(language);
+    if (!spec) return line.length > 0 ? [{ text: line, type: 'plain' }] : [];
+
+    const tokens: CodeToken[] = [];
+    const push = (text: string, type: CodeTokenType) => {
+        if (text.length === 0) return;
+        const last = tokens[tokens.length - 1];
+        if (last && last.type === type) last.text += text;
+        else tokens.push({ text, type });
+    };
+
+    let pos = 0;
+    let inTag = false;
+    while (pos < line.length) {
+        const rest = line.substring(pos);
+
+        // Continue a block comment opened on a previous line
+        if (state.blockCommentEnd) {
+            const endIdx = rest.indexOf(state.blockCommentEnd);
+            if (endIdx === -1) { push(rest, 'comment'); break; }
+            push(rest.substring(0, endIdx + state.blockCommentEnd.length), 'comment');
+            pos += endIdx + state.blockCommentEnd.length;
+            state.blockCommentEnd = null;
+            continue;
+        }
+
+        const blockStart = spec.blockComments.find(([start]) => rest.startsWith(start));
+        if (blockStart) {
+            push(blockStart[0], 'comment');
+            pos += blockStart[0].length;
+            state.blockCommentEnd = blockStart[1];
+            continue;
+        }
+
+        // '#' only starts a comment at a word boundary (e.g. not in "$#" or "a#b")
+        const lineComment = spec.lineComments.find(c => rest.startsWith(c) && (c !== '#' || pos === 0 || /\s/.test(line[pos - 1])));
+        if (lineComment) { push(rest, 'comment'); break; }
+
+        if (spec.markup) {
+            const tagMatch = rest.match(/^<\/?[A-Za-z][\w:-]*/);
+            if (tagMatch) { push(tagMatch[0], 'tag'); pos += tagMatch[0].length; inTag = true; continue; }
+            if (inTag && (rest.startsWith('>') || rest.startsWith('/>'))) {
+                const close = rest.startsWith('>') ? '>' : '/>';
+                push(close, 'tag'); pos += close.length; inTag = false; continue;
+            }
+            if (inTag) {
+                const attrMatch = rest.match(/^[A-Za-z_:][\w:.-]*/);
+                if (attrMatch) { push(attrMatch[0], 'property'); pos += attrMatch[0].length; continue; }
+            } else {
+                const textMatch = rest.match(/^[^<]+/);
+                if (textMatch) { push(textMatch[0], 'plain'); pos += textMatch[0].length; continue; }
+            }
+        }
+
+        const quote = spec.quotes.find(q => rest.startsWith(q));
+        if (quote) {
+            let end = 1;
+            while (end < rest.length && rest[end] !== quote) {
+                if (rest[end] === '\\') end++;
+                end++;
+            }
+            const literal = rest.substring(0, Math.min(end + 1, rest.length));
+            // Quoted keys in JSON/YAML are properties, not strings
+            const isKey = spec.keyValue && /^\s*:/.test(rest.substring(literal.length));
+            push(literal, isKey ? 'property' : 'string');
+            pos += literal.length;
+            continue;
+        }
+
+        const prev = pos > 0 ? line[pos - 1] : '';
+        const numberMatch = !/[\w$]/.test(prev) ? rest.match(/^(0x[\da-fA-F]+|\d[\d_]*(\.\d+)?([eE][+-]?\d+)?)/) : null;
+        if (numberMatch) { push(numberMatch[0], 'number'); pos += numberMatch[0].length; continue; }
+
+        const wordMatch = rest.match(/^[@#!]?[A-Za-z_$][\w$-]*\??/);
+        if (wordMatch) {
+            let word = wordMatch[0];
+            // Prefixed words (#include, @media, !important) only count when the language knows them
+            if (/^[@#!]/.test(word) && !spec.keywords.has(word)) { push(word[0], 'plain'); pos++; continue; }
+            // Only CSS and YAML allow dashes inside identifiers
+            if (!spec.keyValue && word.includes('-')) word = word.substring(0, word.indexOf('-'));
+            if (word.endsWith('?') && !spec.keywords.has(word)) word = word.slice(0, -1);
+            const after = line.substring(pos + word.length);
+            const lookup = spec === LANGUAGES.sql ? word.toLowerCase() : word;
+            let type: CodeTokenType = 'plain';
+            if (spec.keywords.has(lookup)) type = 'keyword';
+            else if (spec.literals.has(lookup)) type = 'number';
+            // "key: value" pairs (CSS declarations, YAML keys), but not selectors such as "a:hover {"
+            else if (spec.keyValue && /^\s*:/.test(after) && !line.includes('{')) type = 'property';
+            else if (/^\s*\(/.test(after)) type = 'function';
+            push(word, type);
+            pos += word.length;
+            continue;
+        }
+
+        push(line[pos], 'plain');
+        pos++;
+    }
+    return tokens;
+}
@@ -0,0 +1,1170 @@
+import { Block, CodeBlock, DiagramRender, EmbedInline, LoadedImage, MathRender, ParagraphBlock, QuoteBlock, TableBlock, TextInline, stripInlineMarkdown } from './parser';
+import { DEFAULT_CODE_COLORS, createHighlightState, highlightLine } from './highlight';
+import { RTL_REGEX, WORD_SPLIT_REGEX } from './fontfallback';
+
+// Lays parsed notes out on pages as positioned boxes (text, shapes, images, links), in millimetres with
+// y growing downwards and text positioned by its baseline. Text is measured through a TextMeasurer, so
+// layout runs anywhere, including tests without Obsidian.
+
+export type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+export interface FontSpec {
+    family: string;
+    style: FontStyle;
+    // In points
+    size: number;
+}
+
+export interface TextMeasurer {
+    width(text: string, font: FontSpec): number;
+    // Wraps text to lines no wider than width
+    split(text: string, width: number, font: FontSpec): string[];
+}
+
+export interface TextBox { type: 'text', x: number, y: number, text: string, font: FontSpec, color: number[], align?: 'center' | 'right' }
+export interface RectBox { type: 'rect', x: number, y: number, width: number, height: number, fill?: number[], stroke?: number[], lineWidth?: number, dash?: number[], radius?: number }
+export interface LineBox { type: 'line', x1: number, y1: number, x2: number, y2: number, color: number[], width: number, dash?: number[] }
+export interface CircleBox { type: 'circle', x: number, y: number, radius: number, fill?: number[], stroke?: number[], lineWidth?: number }
+export interface PolylineBox { type: 'polyline', points: number[][], color: number[], width: number }
+// background is the color behind a content image, for recompressing it as JPEG; images without one are embedded as they are
+export interface ImageBox { type: 'image', x: number, y: number, width: number, height: number, image: LoadedImage, background?: number[] }
+// em is millimetres per em; the formula's baseline is at y
+export interface MathBox { type: 'math', x: number, y: number, em: number, render: MathRender, color: number[] }
+export interface DiagramBox { type: 'diagram', x: number, y: number, width: number, height: number, render: DiagramRender }
+// A link to a URL, or to a position on a page of the document
+export interface LinkBox { type: 'link', x: number, y: number, width: number, height: number, url?: string, page?: number, top?: number }
+
+export type Box = TextBox | RectBox | LineBox | CircleBox | PolylineBox | ImageBox | MathBox | DiagramBox | LinkBox;
+
+export interface LayoutPage {
+    width: number;
+    height: number;
+    boxes: Box[];
+}
+
+export interface HeadingEntry {
+    level: number;
+    text: string;
+    page: number;
+    y: number;
+}
+
+export interface LayoutTheme {
+    dark: boolean;
+    text: number[];
+    background: number[];
+    link: number[];
+    // Colors and backgrounds read from the CSS, by element (h1, bold, code-keyword, callout-note, table-border, ...)
+    colors: Record<string, number[]>;
+    backgrounds: Record<string, number[]>;
+}
+
+export interface LayoutOptions {
+    pageWidth: number;
+    pageHeight: number;
+    margins: { top: number, right: number, bottom: number, left: number };
+    // Body font family
+    font: string;
+    theme: LayoutTheme;
+    // Merged exports title every note
+    merged: boolean;
+    showTitle: boolean;
+    showToc: boolean;
+    showLineNumbers: boolean;
+    // Lines (1-based) of the first note that start a new page
+    breakLines: number[];
+    // Headings up to this level start a new page; 0 for none
+    breakBeforeLevel: number;
+    keepHeadingsWithNext: boolean;
+    footnotePlacement: 'page' | 'end';
+    wideTables: 'wrap' | 'shrink' | 'landscape';
+}
+
+export interface LayoutNote {
+    title: string;
+    blocks: Block[];
+    // Properties for the document info block
+    info?: [string, string][];
+}
+
+// Where a line of a note ended up: y is the baseline of its first row, in mm from the top of the page
+export interface SourcePosition {
+    note: number;
+    line: number;
+    page: number;
+    y: number;
+}
+
+export interface DocumentLayout {
+    pages: LayoutPage[];
+    // Headings in document order, for the outline; merged exports add each note's title at level 0
+    headings: HeadingEntry[];
+    // Page each note starts on
+    noteStarts: number[];
+    // The notes' own lines (not those of embedded notes) by note and line
+    sourceLines: SourcePosition[];
+}
+
+// Callout types with their aliases, CSS color variable, default color (Obsidian's light theme) and Lucide icon
+export const CALLOUT_TYPES: { name: string, aliases: string[], variable: string, color: number[], icon: string }[] = [
+    { name: 'note', aliases: [], variable: '--callout-default', color: [8, 109, 221], icon: 'lucide-pencil' },
+    { name: 'abstract', aliases: ['summary', 'tldr'], variable: '--callout-summary', color: [0, 191, 188], icon: 'lucide-clipboard-list' },
+    { name: 'info', aliases: [], variable: '--callout-info', color: [8, 109, 221], icon: 'lucide-info' },
+    { name: 'todo', aliases: [], variable: '--callout-todo', color: [8, 109, 221], icon: 'lucide-check-circle-2' },
+    { name: 'tip', aliases: ['hint', 'important'], variable: '--callout-tip', color: [0, 191, 188], icon: 'lucide-flame' },
+    { name: 'success', aliases: ['check', 'done'], variable: '--callout-success', color: [8, 185, 78], icon: 'lucide-check' },
+    { name: 'question', aliases: ['help', 'faq'], variable: '--callout-question', color: [236, 117, 0], icon: 'lucide-help-circle' },
+    { name: 'warning', aliases: ['caution', 'attention'], variable: '--callout-warning', color: [236, 117, 0], icon: 'lucide-alert-triangle' },
+    { name: 'failure', aliases: ['fail', 'missing'], variable: '--callout-fail', color: [233, 49, 71], icon: 'lucide-x' },
+    { name: 'danger', aliases: ['error'], variable: '--callout-error', color: [233, 49, 71], icon: 'lucide-zap' },
+    { name: 'bug', aliases: [], variable: '--callout-bug', color: [233, 49, 71], icon: 'lucide-bug' },
+    { name: 'example', aliases: [], variable: '--callout-example', color: [120, 82, 238], icon: 'lucide-list' },
+    { name: 'quote', aliases: ['cite'], variable: '--callout-quote', color: [158, 158, 158], icon: 'lucide-quote' },
+];
+
+/**
+ * Looks up a callout type by name or alias; unknown types look like notes, as in Obsidian.
+ */
+export function getCalloutType(type: string) {
+    const name = type.trim().toLowerCase();
+    return CALLOUT_TYPES.find(c => c.name === name || c.aliases.includes(name)) || CALLOUT_TYPES[0];
+}
+
+/**
+ * How much a quote narrows its content on each side: the side bar and padding (callouts are padded on both sides).
+ */
+export function quoteInsets(callout: boolean): { left: number, right: number } {
+    return callout ? { left: 4, right: 3 } : { left: 4.8, right: 0 };
+}
+
+// Millimetres per CSS pixel
+export const PX_TO_MM = 0.264583;
+
+const LINE_HEIGHT = 6;
+const BODY_FONT_SIZE = 11;
+// Lists: the marker sits in a fixed-width column so wrapped lines hang under the item text
+const LIST_MARKER_WIDTH = 6;
+const FOOTNOTE_LINE_HEIGHT = 4;
+const FOOTNOTE_INDENT = 5;
+// Points per millimetre, and jsPDF's default line height for multi-line text
+const POINTS_PER_MM = 72 / 25.4;
+const LINE_HEIGHT_FACTOR = 1.15;
+
+// A Markdown footnote ([^id] or ^[inline]), wrapped to the footnote width
+interface FootnoteEntry {
+    number: number;
+    lines: string[];
+}
+
+function fontStyle(bold: boolean, italic: boolean): FontStyle {
+    return bold && italic ? 'bolditalic' : (bold ? 'bold' : (italic ? 'italic' : 'normal'));
+}
+
+/**
+ * Sizes table columns to the table width in proportion to their natural widths, without making any
+ * narrower than its longest word.
+ */
+function fitColumns(natural: number[], minimum: number[], total: number): number[] {
+    const widths = natural.slice();
+    const fixed = new Set<number>();
+    for (;;) {
+        const free = widths.map((_, c) => c).filter(c => !fixed.has(c));
+        const freeNatural = free.reduce((sum, c) => sum + natural[c], 0);
+        if (free.length === 0 || freeNatural <= 0) break;
+        const remaining = total - widths.reduce((sum, width, c) => sum + (fixed.has(c) ? width : 0), 0);
+        let changed = false;
+        for (const c of free) widths[c] = natural[c] * remaining / freeNatural;
+        for (const c of free) {
+            if (widths[c] < minimum[c]) { widths[c] = minimum[c]; fixed.add(c); changed = true; }
+        }
+        if (!changed) break;
+    }
+    return widths;
+}
+
+class LayoutEngine {
+    private pages: LayoutPage[] = [];
+    private page: LayoutPage;
+    // Headings and note starts keep their page, not its number: the table of contents inserts pages at the end
+    private headings: { level: number, text: string, page: LayoutPage, y: number }[] = [];
+    private noteStarts: LayoutPage[] = [];
+    private sourceLines: { note: number, line: number, page: LayoutPage, y: number }[] = [];
+    private note = 0;
+    private headingLinks: { heading: string, box: LinkBox }[] = [];
+
+    private y: number;
+    private cursorX: number;
+    // Horizontal bounds for the note content; callouts and blockquotes narrow them while their content is laid out
+    private contentLeft: number;
+    private contentRight: number;
+    private contentWidth: number;
+    // Where content starts on the current page (below the title on a title page)
+    private pageStartY: number;
+    // Set while a wide table is laid out: the pages it adds are landscape
+    private landscapePages = false;
+    // Set after a landscape table: whatever comes next starts a portrait page, so a table that ends the
+    // document leaves no blank page behind
+    private portraitPending = false;
+
+    // Footnotes are laid out at the bottom of the page that references them; the space they
+    // take is reserved as soon as they are referenced. Those that no longer fit move to the next page.
+    private pageFootnotes = new Map<LayoutPage, FootnoteEntry[]>();
+    private carriedFootnotes: FootnoteEntry[] = [];
+    private endnotes: FootnoteEntry[] = [];
+    private footnoteNumbers: Record<string, number> = {};
+    private footnoteCount = 0;
+
+    constructor(private options: LayoutOptions, private measurer: TextMeasurer) {
+        const { margins } = options;
+        this.page = this.addPage();
+        this.y = margins.top;
+        this.cursorX = margins.left;
+        this.contentLeft = margins.left;
+        this.contentRight = options.pageWidth - margins.right;
+        this.contentWidth = this.contentRight - this.contentLeft;
+        this.pageStartY = margins.top;
+    }
+
+    private get maxLineWidth() {
+        return this.options.pageWidth - this.options.margins.left - this.options.margins.right;
+    }
+
+    private font(style: FontStyle = 'normal', size: number = BODY_FONT_SIZE): FontSpec {
+        return { family: this.options.font, style, size };
+    }
+
+    private addPage(): LayoutPage {
+        const { pageWidth, pageHeight } = this.options;
+        const page: LayoutPage = this.landscapePages
+            ? { width: Math.max(pageWidth, pageHeight), height: Math.min(pageWidth, pageHeight), boxes: [] }
+            : { width: pageWidth, height: pageHeight, boxes: [] };
+        this.pages.push(page);
+        return page;
+    }
+
+    private add(box: Box) {
+        this.page.boxes.push(box);
+    }
+
+    private text(text: string, x: number, y: number, font: FontSpec, color: number[], align?: 'center' | 'right') {
+        const box: TextBox = { type: 'text', x, y, text, font, color };
+        if (align) box.align = align;
+        this.add(box);
+    }
+
+    private footnoteAreaHeight(entries: FootnoteEntry[]) {
+        return entries.length === 0 ? 0 : 3 + entries.reduce((h, e) => h + e.lines.length * FOOTNOTE_LINE_HEIGHT, 0);
+    }
+
+    private contentBottom(page: LayoutPage = this.page) {
+        return page.height - this.options.margins.bottom - this.footnoteAreaHeight(this.pageFootnotes.get(page) || []);
+    }
+
+    /**
+     * Checks if a page break is needed and starts a new page if necessary.
+     */
+    private checkPageBreak(neededHeight: number = 0, force: boolean = false) {
+        if (force || this.y + neededHeight > this.contentBottom()) {
+            this.page = this.addPage();
+            this.portraitPending = false;
+            this.y = this.options.margins.top;
+            this.pageStartY = this.options.margins.top;
+            this.cursorX = this.contentLeft;
+            if (this.carriedFootnotes.length > 0) {
+                this.pageFootnotes.set(this.page, this.carriedFootnotes);
+                this.carriedFootnotes = [];
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Starts the portrait page a landscape table left pending.
+     */
+    private resumePortrait() {
+        if (this.portraitPending) this.checkPageBreak(0, true);
+    }
+
+    /**
+     * Numbers a footnote and queues its text for the current page, or for the endnotes.
+     * References to the same definition (same key) share a number.
+     */
+    private addFootnote(text: string, key?: string): number {
+        if (key && this.footnoteNumbers[key]) return this.footnoteNumbers[key];
+        const number = ++this.footnoteCount;
+        if (key) this.footnoteNumbers[key] = number;
+
+        const end = this.options.footnotePlacement === 'end';
+        const entry = { number, lines: this.measurer.split(stripInlineMarkdown(text), this.maxLineWidth - FOOTNOTE_INDENT, this.font('normal', end ? 10 : 9)) };
+        if (end) {
+            this.endnotes.push(entry);
+        } else {
+            const entries = [...(this.pageFootnotes.get(this.page) || []), entry];
+            // Footnotes keep their order, so once one is carried over the rest follow it
+            if (this.carriedFootnotes.length === 0 && this.y + 1 <= this.page.height - this.options.margins.bottom - this.footnoteAreaHeight(entries)) this.pageFootnotes.set(this.page, entries);
+            else this.carriedFootnotes.push(entry);
+        }
+        return number;
+    }
+
+    /**
+     * Renders the document title (filename). Merged exports always title each note.
+     */
+    private layoutTitle(title: string) {
+        if (!this.options.showTitle && !this.options.merged) return;
+        const { theme, margins } = this.options;
+        const font = this.font('bold', 24);
+        this.text(title, margins.left + (this.maxLineWidth - this.measurer.width(title, font)) / 2, this.y, font, theme.colors['title'] || theme.text);
+        this.y += 15;
+        this.pageStartY = this.y;
+    }
+
+    /**
+     * Lays out the notes one after the other, then endnotes, document info, footnotes and the table of contents.
+     */
+    layout(notes: LayoutNote[]): DocumentLayout {
+        const { margins, merged } = this.options;
+        this.layoutTitle(notes[0].title);
+        // The table of contents goes below the title once page numbers are known, so content starts on a new page
+        const tocStartY = this.y;
+        if (this.options.showToc) this.checkPageBreak(0, true);
+
+        // Notes start on a new page; their titles are top-level outline entries in merged exports
+        notes.forEach((note, n) => {
+            if (n > 0) {
+                this.checkPageBreak(0, true);
+                this.layoutTitle(note.title);
+            }
+            const titlePage = n === 0 ? this.pages[0] : this.page;
+            this.note = n;
+            this.noteStarts.push(titlePage);
+            if (merged) this.headings.push({ level: 0, text: note.title, page: titlePage, y: n === 0 ? 0 : margins.top - 10 });
+            this.layoutBlocks(note.blocks, true);
+        });
+
+        this.layoutEndnotes();
+        this.layoutDocumentInfo(notes);
+        this.layoutPageFootnotes();
+        if (this.options.showToc) this.layoutToc(tocStartY);
+
+        const pageNumber = (page: LayoutPage) => this.pages.indexOf(page) + 1;
+        const headings = this.headings.map(h => ({ level: h.level, text: h.text, page: pageNumber(h.page), y: h.y }));
+        // Links to headings of the note jump to the heading's page; the others are dropped
+        for (const link of this.headingLinks) {
+            const target = headings.find(h => h.text.toLowerCase() === link.heading.toLowerCase());
+            if (target) { link.box.page = target.page; link.box.top = target.y; }
+        }
+        for (const page of this.pages) page.boxes = page.boxes.filter(box => box.type !== 'link' || box.url !== undefined || box.page !== undefined);
+        const sourceLines = this.sourceLines.map(s => ({ note: s.note, line: s.line, page: pageNumber(s.page), y: s.y }))
+            .sort((a, b) => a.note - b.note || a.line - b.line);
+        return { pages: this.pages, headings, noteStarts: this.noteStarts.map(pageNumber), sourceLines };
+    }
+
+    /**
+     * Lays out blocks at the cursor. Line numbers and forced page breaks only apply to the note's own lines
+     * (root), not to embedded notes.
+     */
+    private layoutBlocks(blocks: Block[], root: boolean, parentLine: number = -1) {
+        for (const block of blocks) {
+            // Empty lines after a landscape table don't need a page of their own
+            if (block.type !== 'paragraph' || block.inlines.length > 0 || block.list) this.resumePortrait();
+            if (root && block.line !== parentLine && this.options.breakLines.includes(block.line + 1)) this.checkPageBreak(0, true);
+            const start = { page: this.page, y: this.y };
+            let marked = false;
+            const markLine = (targetY: number) => {
+                if (!root || marked) return;
+                this.markSource(block.line, targetY);
+                if (this.options.showLineNumbers) this.lineNumber(block.line + 1, targetY);
+                marked = true;
+            };
+            this.layoutBlock(block, root, markLine);
+            // Blocks that don't mark their first line (code, page breaks) are found where they started
+            if (root && !marked && block.line !== parentLine) this.sourceLines.push({ note: this.note, line: block.line, page: start.page, y: start.y });
+        }
+    }
+
+    /**
+     * Remembers where a line of the note is, for the preview to find it.
+     */
+    private markSource(line: number, y: number) {
+        this.sourceLines.push({ note: this.note, line, page: this.page, y });
+    }
+
+    private layoutBlock(block: Block, root: boolean, markLine: (targetY: number) => void) {
+        const { theme } = this.options;
+        switch (block.type) {
+            case 'code':
+                if (block.render) this.layoutDiagram(block.render, markLine);
+                else this.layoutCode(block, root);
+                break;
+            case 'math':
+                this.layoutMath(block.tex, true, block.render, this.contentLeft, markLine);
+                this.y += LINE_HEIGHT;
+                break;
+            case 'pageBreak':
+                // A break right at the top of a page would only leave it blank
+                if (this.y > this.options.margins.top) this.checkPageBreak(0, true);
+                break;
+            case 'quote':
+                this.layoutQuote(block, root, markLine);
+                break;
+            case 'table':
+                this.checkPageBreak(LINE_HEIGHT);
+                markLine(this.y + 4);
+                this.layoutTable(block);
+                break;
+            case 'rule': {
+                this.checkPageBreak(LINE_HEIGHT);
+                markLine(this.y);
+                const ruleColor = theme.colors['hr'] || (theme.dark ? [80, 80, 80] : [200, 200, 200]);
+                this.add({ type: 'line', x1: this.contentLeft, y1: this.y - 1.5, x2: this.contentRight, y2: this.y - 1.5, color: ruleColor, width: 0.3 });
+                this.y += LINE_HEIGHT;
+                break;
+            }
+            case 'heading': {
+                const { level, text } = block;
+                const font = this.font('bold', [22, 18, 16, 14, 12, 12][level - 1] || 12);
+                const color = theme.colors[`h${level}`] || theme.text;
+                if (level <= this.options.breakBeforeLevel && this.y > this.pageStartY) this.checkPageBreak(0, true);
+                if (this.y > this.options.margins.top) this.y += (level === 1 ? 8 : 6);
+                const splitTitle = this.measurer.split(text, this.contentWidth, font);
+                // Keeping the heading with its next paragraph means fitting the heading and two lines of text
+                const headingHeight = splitTitle.length * (level === 1 ? 8 : 5);
+                this.checkPageBreak(this.options.keepHeadingsWithNext ? headingHeight + LINE_HEIGHT * 2 : 8);
+                markLine(this.y);
+                this.headings.push({ level, text: stripInlineMarkdown(text), page: this.page, y: this.y - 8 });
+                for (const splitLine of splitTitle) {
+                    this.checkPageBreak(8);
+                    this.text(splitLine, this.contentLeft, this.y, font, color);
+                    this.y += (level === 1 ? 8 : 5);
+                }
+                this.y += 1;
+                break;
+            }
+            case 'paragraph':
+                this.layoutParagraph(block, markLine);
+                break;
+        }
+    }
+
+    /**
+     * Draws a source line number in the left margin.
+     */
+    private lineNumber(lineNumber: number, targetY: number) {
+        this.text(`${lineNumber}`, 5, targetY, this.font('normal', 8), [100, 100, 100]);
+    }
+
+    /**
+     * Lays out a fenced code block as a monospace box with syntax highlighting.
+     * The background is filled row by row so a long block can continue on the next page.
+     */
+    private layoutCode(block: CodeBlock, root: boolean) {
+        const { theme, showLineNumbers, breakLines } = this.options;
+        const language = block.language;
+        const codeFont: FontSpec = { family: 'courier', style: 'normal', size: 9 };
+        const rowHeight = codeFont.size * 0.45;
+        const padding = 3;
+        const labelHeight = language ? 4 : 0;
+        const codeBg = theme.backgrounds['code'] || (theme.dark ? [40, 40, 40] : [240, 240, 240]);
+        const palette = theme.dark ? DEFAULT_CODE_COLORS.dark : DEFAULT_CODE_COLORS.light;
+        const tokenColor = (type: string) => type === 'plain' ? (theme.colors['code'] || theme.text) : (theme.colors[`code-${type}`] || palette[type]);
+
+        const charWidth = this.measurer.width('M', codeFont);
+        const maxChars = Math.max(1, Math.floor((this.contentWidth - padding * 2) / charWidth));
+
+        // Inside the block y is the top of the current row instead of a text baseline
+        const startRow = (height: number) => {
+            this.checkPageBreak(height);
+            this.add({ type: 'rect', x: this.contentLeft, y: this.y, width: this.contentWidth, height, fill: codeBg });
+        };
+
+        this.y -= 4;
+        startRow(padding + labelHeight);
+        if (language) {
+            this.text(language, this.contentLeft + this.contentWidth - padding, this.y + padding + 1, { ...codeFont, size: 7 }, tokenColor('comment'), 'right');
+        }
+        this.y += padding + labelHeight;
+
+        const state = createHighlightState();
+        for (const codeLine of block.lines) {
+            if (root && breakLines.includes(codeLine.line + 1)) this.checkPageBreak(0, true);
+            startRow(rowHeight);
+            if (root) this.markSource(codeLine.line, this.y + rowHeight * 0.75);
+            if (showLineNumbers && root) this.lineNumber(codeLine.line + 1, this.y + rowHeight * 0.75);
+            let col = 0;
+            for (const token of highlightLine(codeLine.text, language, state)) {
+                const color = tokenColor(token.type);
+                let remaining = token.text;
+                while (remaining.length > 0) {
+                    // Hard-wrap long lines; whitespace is kept since courier is monospaced
+                    if (col >= maxChars) { this.y += rowHeight; col = 0; startRow(rowHeight); }
+                    const chunk = remaining.substring(0, maxChars - col);
+                    if (chunk.trim().length > 0) this.text(chunk, this.contentLeft + padding + col * charWidth, this.y + rowHeight * 0.75, codeFont, color);
+                    col += chunk.length;
+                    remaining = remaining.substring(chunk.length);
+                }
+            }
+            this.y += rowHeight;
+        }
+
+        this.add({ type: 'rect', x: this.contentLeft, y: this.y, width: this.contentWidth, height: padding, fill: codeBg });
+        this.y += padding + LINE_HEIGHT;
+    }
+
+    /**
+     * Places a Mermaid or plugin code block as Obsidian rendered it, centered at its natural size up to the
+     * content width and scaled down to fit on a page.
+     */
+    private layoutDiagram(render: DiagramRender, markLine: (targetY: number) => void) {
+        const { margins } = this.options;
+        const maxHeight = this.page.height - margins.top - margins.bottom - LINE_HEIGHT;
+        const scale = Math.min(1, this.contentWidth / (render.width * PX_TO_MM), maxHeight / (render.height * PX_TO_MM));
+        const width = render.width * PX_TO_MM * scale, height = render.height * PX_TO_MM * scale;
+
+        this.checkPageBreak(height);
+        markLine(this.y);
+        const top = this.y - 4, left = this.contentLeft + (this.contentWidth - width) / 2;
+        this.add({ type: 'diagram', x: left, y: top, width, height, render });
+        this.y = top + height + LINE_HEIGHT;
+    }
+
+    /**
+     * Places a formula: inline on the text baseline at the cursor, or display math centered on its own line
+     * (scaled down if wider than the content). Formulas MathJax couldn't typeset are printed as their source.
+     */
+    private layoutMath(tex: string, display: boolean, math: MathRender | null | undefined, lineStartX: number, markLine: (targetY: number) => void) {
+        const { theme } = this.options;
+        if (!math) {
+            const fallback = display ? `$$${tex}$$` : `$${tex}$`;
+            const font: FontSpec = { family: 'courier', style: 'normal', size: BODY_FONT_SIZE };
+            const width = this.measurer.width(fallback, font);
+            if (this.cursorX + width > this.contentRight && this.cursorX > lineStartX) { this.y += LINE_HEIGHT; this.checkPageBreak(); this.cursorX = lineStartX; }
+            markLine(this.y);
+            this.text(fallback, this.cursorX, this.y, font, [220, 50, 50]);
+            this.cursorX += width;
+            return;
+        }
+
+        const em = BODY_FONT_SIZE * 0.352778; // mm per em at the body font size
+        if (display) {
+            if (this.cursorX > lineStartX) { this.y += LINE_HEIGHT; this.cursorX = lineStartX; }
+            const available = this.contentRight - lineStartX;
+            const scale = Math.min(1, available / (math.width * em));
+            const height = math.height * em * scale, depth = math.depth * em * scale;
+            this.checkPageBreak(height + depth);
+            const baseline = this.y - 4 + height;
+            markLine(baseline);
+            this.add({ type: 'math', x: lineStartX + (available - math.width * em * scale) / 2, y: baseline, em: em * scale, render: math, color: theme.text });
+            this.y = baseline + depth + 1;
+            this.cursorX = lineStartX;
+        } else {
+            const width = math.width * em;
+            if (this.cursorX + width > this.contentRight && this.cursorX > lineStartX) { this.y += LINE_HEIGHT; this.checkPageBreak(); this.cursorX = lineStartX; }
+            markLine(this.y);
+            this.add({ type: 'math', x: this.cursorX, y: this.y, em, render: math, color: theme.text });
+            this.cursorX += width + 0.5;
+        }
+    }
+
+    /**
+     * Draws a dashed box with a message where content can't be rendered (missing image, circular embed, ...).
+     */
+    private layoutPlaceholder(message: string, x: number) {
+        const placeholderHeight = 12;
+        const gray = [150, 150, 150];
+        this.checkPageBreak(placeholderHeight + 2);
+        this.add({ type: 'rect', x, y: this.y - 1.5, width: this.contentRight - x, height: placeholderHeight, stroke: gray, lineWidth: 0.3, dash: [1.5, 1] });
+        const font = this.font('italic', 9);
+        this.text(this.measurer.split(message, this.contentRight - x - 6, font)[0], x + 3, this.y - 1.5 + placeholderHeight / 2 + 1, font, gray);
+        this.y += placeholderHeight + 2;
+        this.cursorX = x;
+    }
+
+    /**
+     * Draws a list bullet; the shape changes with the nesting depth (disc, circle, square).
+     */
+    private layoutBullet(depth: number, x: number) {
+        const color = this.options.theme.text;
+        const cx = x + 1.5, cy = this.y - 1.4;
+        if (depth % 3 === 0) this.add({ type: 'circle', x: cx, y: cy, radius: 0.8, fill: color });
+        else if (depth % 3 === 1) this.add({ type: 'circle', x: cx, y: cy, radius: 0.75, stroke: color, lineWidth: 0.25 });
+        else this.add({ type: 'rect', x: cx - 0.7, y: cy - 0.7, width: 1.4, height: 1.4, fill: color });
+    }
+
+    /**
+     * Draws a task checkbox: empty, checked (x), in progress (/), cancelled (-), or the state
+     * character inside the box for the custom states themes use ([>], [!], [?], ...).
+     */
+    private layoutCheckbox(state: string, x: number) {
+        const { theme } = this.options;
+        const size = 3.4, left = x + 0.2, top = this.y - 3.1;
+        const checkColor = theme.colors['checkbox'] || theme.link;
+        if (state === 'x' || state === 'X') {
+            this.add({ type: 'rect', x: left, y: top, width: size, height: size, fill: checkColor, radius: 0.6 });
+            this.add({ type: 'polyline', points: [[left + 0.7, top + 1.8], [left + 1.4, top + 2.6], [left + 2.7, top + 0.9]], color: theme.background, width: 0.4 });
+            return;
+        }
+        this.add({ type: 'rect', x: left, y: top, width: size, height: size, stroke: theme.text, lineWidth: 0.25, radius: 0.6 });
+        if (state === '/') {
+            this.add({ type: 'rect', x: left + 0.5, y: top + 0.5, width: size / 2 - 0.5, height: size - 1, fill: checkColor });
+        } else if (state === '-') {
+            this.add({ type: 'line', x1: left + 0.7, y1: top + size / 2, x2: left + size - 0.7, y2: top + size / 2, color: theme.text, width: 0.25 });
+        } else if (state.trim()) {
+            const font = this.font('bold', 7);
+            this.text(state, left + (size - this.measurer.width(state, font)) / 2, top + 2.6, font, checkColor);
+        }
+    }
+
+    /**
+     * Lays out a callout (a [!type]+/- Title first line) or a plain blockquote. The content is laid out
+     * between narrowed bounds, so it wraps, nests and continues on the next page like the rest of the
+     * note; the side bar and background are put behind it afterwards, page by page.
+     */
+    private layoutQuote(block: QuoteBlock, root: boolean, markLine: (targetY: number) => void) {
+        const { theme, margins } = this.options;
+        const callout = block.callout ? getCalloutType(block.callout.type) : null;
+        const accent = callout
+            ? (theme.colors[`callout-${callout.name}`] || callout.color)
+            : (theme.colors['blockquote'] || (theme.dark ? [90, 90, 90] : [200, 200, 200]));
+        const barWidth = callout ? 1 : 0.8;
+        const padding = callout ? 3 : 0;
+        const insets = quoteInsets(!!callout);
+        const outerLeft = this.contentLeft, outerRight = this.contentRight;
+
+        if (this.cursorX > this.contentLeft) { this.y += LINE_HEIGHT; this.cursorX = this.contentLeft; }
+        this.checkPageBreak(LINE_HEIGHT * 2);
+        const startPage = this.page;
+        const startIndex = startPage.boxes.length;
+        const top = this.y - 4.5;
+
+        this.contentLeft = outerLeft + insets.left;
+        this.contentRight = outerRight - insets.right;
+        this.contentWidth = this.contentRight - this.contentLeft;
+        this.cursorX = this.contentLeft;
+
+        let collapsed = false;
+        if (block.callout && callout) {
+            collapsed = block.callout.fold === '-';
+            this.y += padding;
+            markLine(this.y);
+            // Title row: icon, title (the type name by default) and the fold state of foldable callouts
+            const iconSize = 4.2;
+            const icon = block.icon;
+            if (icon) this.add({ type: 'image', x: this.contentLeft, y: this.y - iconSize + 0.6, width: iconSize, height: iconSize, image: icon });
+            const titleLeft = this.contentLeft + (icon ? iconSize + 2 : 0);
+            const foldWidth = block.callout.fold ? 5 : 0;
+            const typeName = block.callout.type.trim();
+            const title = block.callout.title || typeName.charAt(0).toUpperCase() + typeName.slice(1).toLowerCase();
+            const font = this.font('bold');
+            const titleLines = this.measurer.split(stripInlineMarkdown(title), this.contentRight - titleLeft - foldWidth, font);
+            if (block.callout.fold) {
+                // Chevron pointing right when folded, down when open
+                const cx = this.contentRight - 2, cy = this.y - 1.5;
+                const points = collapsed ? [[cx - 0.5, cy - 1], [cx + 0.5, cy], [cx - 0.5, cy + 1]] : [[cx - 1, cy - 0.5], [cx, cy + 0.5], [cx + 1, cy - 0.5]];
+                this.add({ type: 'polyline', points, color: accent, width: 0.35 });
+            }
+            titleLines.forEach((line, t) => {
+                if (t > 0) { this.y += LINE_HEIGHT; this.checkPageBreak(); }
+                this.text(line, titleLeft, this.y, font, accent);
+            });
+            this.y += LINE_HEIGHT + (collapsed ? 0 : 1);
+        }
+
+        // Folded callouts export like they are shown: title only
+        if (!collapsed) this.layoutBlocks(block.children, root, block.line);
+
+        this.contentLeft = outerLeft; this.contentRight = outerRight; this.contentWidth = outerRight - outerLeft;
+        this.cursorX = this.contentLeft;
+        const bottom = this.y - LINE_HEIGHT + 2 + padding;
+
+        const tint = callout ? theme.background.map((c, k) => Math.round(c + (accent[k] - c) * 0.1)) : null;
+        for (let p = this.pages.indexOf(startPage); p < this.pages.length; p++) {
+            const page = this.pages[p];
+            const segmentTop = page === startPage ? top : margins.top - 4.5;
+            const segmentBottom = page === this.page ? bottom : this.contentBottom(page);
+            if (segmentBottom <= segmentTop) continue;
+            const behind: Box[] = [];
+            if (tint) behind.push({ type: 'rect', x: outerLeft, y: segmentTop, width: outerRight - outerLeft, height: segmentBottom - segmentTop, fill: tint });
+            behind.push({ type: 'rect', x: outerLeft, y: segmentTop, width: barWidth, height: segmentBottom - segmentTop, fill: accent });
+            page.boxes.splice(page === startPage ? startIndex : 0, 0, ...behind);
+        }
+        this.y += padding + 2;
+    }
+
+    /**
+     * Breaks text into lines that fit: the first one in firstWidth, the others in width.
+     */
+    private fitLines(text: string, firstWidth: number, width: number, font: FontSpec) {
+        const lines: string[] = [];
+        let line = '', available = firstWidth;
+        for (const word of text.split(/(\s+)/)) {
+            if (!word) continue;
+            if (line.trim() && word.trim() && this.measurer.width(line + word, font) > available) {
+                lines.push(line);
+                line = word;
+                available = width;
+            } else {
+                line += word;
+            }
+        }
+        if (line) lines.push(line);
+        return lines;
+    }
+
+    /**
+     * Lays out a paragraph, list item or indented line: its marker, then text, formulas, footnote
+     * references and embeds in the order they appear, wrapping at the content edge.
+     */
+    private layoutParagraph(block: ParagraphBlock, markLine: (targetY: number) => void) {
+        this.checkPageBreak(LINE_HEIGHT);
+        let textStartX = this.contentLeft;
+        const list = block.list;
+        if (list) {
+            const indentOffset = block.indent * 1.5 + this.contentLeft;
+            textStartX = indentOffset + LIST_MARKER_WIDTH;
+            if (list.type === 'task') {
+                this.layoutCheckbox(list.state, indentOffset);
+            } else if (list.type === 'number') {
+                const font = this.font();
+                this.text(list.label, textStartX - 1.5 - this.measurer.width(list.label, font), this.y, font, this.options.theme.text);
+            } else {
+                this.layoutBullet(list.depth, indentOffset);
+            }
+        } else if (block.indent > 0) {
+            textStartX = block.indent * 1.5 + this.contentLeft;
+        }
+        this.cursorX = textStartX;
+
+        for (const inline of block.inlines) {
+            if (inline.type === 'embed') this.layoutEmbed(inline, textStartX, markLine);
+            else if (inline.type === 'math') this.layoutMath(inline.tex, inline.display, inline.render, textStartX, markLine);
+            else if (inline.type === 'footnote') {
+                // Footnote references become superscript numbers
+                const label = String(this.addFootnote(inline.text, inline.key));
+                const font = this.font('normal', 7);
+                const labelWidth = this.measurer.width(label, font);
+                if (this.cursorX + labelWidth > this.contentRight) { this.y += LINE_HEIGHT; this.checkPageBreak(); this.cursorX = textStartX; }
+                markLine(this.y);
+                this.text(label, this.cursorX + 0.3, this.y - 2, font, this.options.theme.text);
+                this.cursorX += labelWidth + 0.6;
+            } else {
+                this.layoutText(inline, textStartX, markLine);
+            }
+        }
+        markLine(this.y);
+        this.y += LINE_HEIGHT;
+    }
+
+    /**
+     * Lays out a styled run word by word, wrapping to textStartX.
+     */
+    private layoutText(inline: TextInline, textStartX: number, markLine: (targetY: number) => void) {
+        const { theme } = this.options;
+        const { style, link } = inline;
+        // Links first, then italic over bold for bold-italic text
+        let color = style.color || theme.text;
+        if (link) color = theme.link;
+        else if (style.italic && theme.colors['italic']) color = theme.colors['italic'];
+        else if (style.bold && theme.colors['bold']) color = theme.colors['bold'];
+        const font: FontSpec = { family: style.code ? 'courier' : this.options.font, style: fontStyle(style.bold, style.italic), size: BODY_FONT_SIZE };
+
+        // Right-to-left text is kept together per line, so it can be ordered as a whole
+        const words = RTL_REGEX.test(inline.text) ? this.fitLines(inline.text, this.contentRight - this.cursorX, this.contentRight - textStartX, font) : inline.text.split(WORD_SPLIT_REGEX);
+
+        // Words on the same line are drawn as one text box, without the spaces at its ends
+        let line = '', lineX = this.cursorX;
+        const flush = () => {
+            const text = line.trim();
+            if (text) {
+                const x = lineX + this.measurer.width(line.substring(0, line.search(/\S/)), font), y = this.y;
+                const width = this.measurer.width(text, font);
+                if (style.highlight) this.add({ type: 'rect', x, y: y - 4, width, height: 5, fill: theme.backgrounds['highlight'] || [255, 255, 0] });
+                if (style.code) this.add({ type: 'rect', x, y: y - 4, width, height: 5, fill: theme.backgrounds['code'] || (theme.dark ? [40, 40, 40] : [240, 240, 240]) });
+                this.text(text, x, y, font, color);
+
+                // Heading links are resolved once every heading is placed
+                if (link && (link.url || link.heading)) {
+                    const box: LinkBox = { type: 'link', x, y: y - 4, width, height: 5 };
+                    if (link.url) box.url = link.url;
+                    else if (link.heading) this.headingLinks.push({ heading: link.heading, box });
+                    this.add(box);
+                }
+                if (style.underline) {
+                    const underlineColor = theme.colors['underline'] || (style.color ? [0, 0, 0] : theme.text);
+                    this.add({ type: 'line', x1: x, y1: y + 0.5, x2: x + width, y2: y + 0.5, color: underlineColor, width: 0.2 });
+                }
+                if (style.strike) this.add({ type: 'line', x1: x, y1: y - 1.5, x2: x + width, y2: y - 1.5, color, width: 0.2 });
+            }
+            line = '';
+        };
+        const newLine = () => {
+            flush();
+            this.y += LINE_HEIGHT; this.checkPageBreak(); this.cursorX = textStartX;
+        };
+
+        for (let word of words) {
+            if (word.length === 0) continue;
+            let wordWidth = this.measurer.width(word, font);
+            if (this.cursorX + wordWidth > this.contentRight) {
+                if (word.trim() === '') { newLine(); continue; }
+                if (this.cursorX > textStartX) newLine();
+                // A word longer than a whole line is broken between characters
+                while (this.cursorX + wordWidth > this.contentRight) {
+                    const head = this.fitCharacters(word, this.contentRight - this.cursorX, font);
+                    if (head.length === word.length) break;
+                    if (!line) lineX = this.cursorX;
+                    markLine(this.y);
+                    line += head;
+                    newLine();
+                    word = word.substring(head.length);
+                    wordWidth = this.measurer.width(word, font);
+                }
+            }
+            if (this.cursorX === textStartX && word.trim() === '') continue;
+            if (!line) lineX = this.cursorX;
+            markLine(this.y);
+            line += word;
+            this.cursorX += wordWidth;
+        }
+        flush();
+    }
+
+    /**
+     * The longest start of a word that fits in width, at least one character.
+     */
+    private fitCharacters(word: string, width: number, font: FontSpec): string {
+        const characters = Array.from(word);
+        let count = 1;
+        while (count < characters.length && this.measurer.width(characters.slice(0, count + 1).join(''), font) <= width) count++;
+        return characters.slice(0, count).join('');
+    }
+
+    /**
+     * Lays out an embedded note in place, an image in a box with its caption, or a placeholder for what couldn't be loaded.
+     */
+    private layoutEmbed(embed: EmbedInline, textStartX: number, markLine: (targetY: number) => void) {
+        if (embed.note) {
+            if (this.cursorX > textStartX) { this.y += LINE_HEIGHT; this.cursorX = textStartX; }
+            this.checkPageBreak(LINE_HEIGHT);
+            markLine(this.y);
+            this.layoutBlocks(embed.note, false);
+            this.cursorX = textStartX;
+            return;
+        }
+
+        // Move to a new line if there is preceding text
+        if (this.cursorX > textStartX) { this.y += LINE_HEIGHT + 2; this.cursorX = textStartX; }
+        const image = embed.image;
+        if (!image) {
+            // Visible placeholder instead of silently dropping the image
+            markLine(this.y + 4);
+            this.layoutPlaceholder(embed.error || `Not found: ${embed.target}`, textStartX);
+            return;
+        }
+
+        const { theme } = this.options;
+        const naturalWidth = image.width || 1, naturalHeight = image.height || 1;
+        const imgWidth = Math.min((embed.width !== null ? embed.width : naturalWidth) * PX_TO_MM, this.contentWidth);
+        const imgHeight = naturalHeight * imgWidth / naturalWidth;
+        const captionFont = this.font();
+        const captionPadding = 3;
+        const imagePadding = 1.5;
+        const lineStep = captionFont.size * 0.45;
+        const caption = embed.caption;
+        const wrappedCaption = caption ? this.measurer.split(caption, imgWidth - 4, captionFont) : [];
+        const captionBoxHeight = caption ? wrappedCaption.length * lineStep + captionPadding : 0;
+        const totalBoxHeight = imgHeight + (caption ? captionBoxHeight + imagePadding : imagePadding * 2);
+
+        if (this.checkPageBreak(totalBoxHeight + 5)) this.cursorX = textStartX;
+        markLine(this.y + imgHeight / 2);
+
+        // Images follow the indentation instead of being centered
+        const xPos = textStartX + imagePadding;
+        const boxX = xPos - imagePadding;
+        const boxWidth = imgWidth + imagePadding * 2;
+        const background = theme.dark ? [40, 40, 40] : [240, 240, 240];
+        this.add({ type: 'rect', x: boxX, y: this.y - imagePadding, width: boxWidth, height: totalBoxHeight, fill: background });
+        this.add({ type: 'image', x: xPos, y: this.y, width: imgWidth, height: imgHeight, image, background });
+
+        if (caption) {
+            let lineY = this.y + imgHeight + imagePadding / 2 + captionFont.size * 0.35;
+            for (const line of wrappedCaption) {
+                this.text(line, boxX + boxWidth / 2, lineY, captionFont, theme.text, 'center');
+                lineY += lineStep;
+            }
+            this.y += totalBoxHeight + 4;
+        } else {
+            this.y += totalBoxHeight + 2;
+        }
+        this.cursorX = textStartX;
+    }
+
+    /**
+     * Lays out a table (header row first) as a grid: columns share the width in proportion to their
+     * content, long cells wrap and the header row repeats on every page. Tables whose columns can't fit
+     * their longest words are shrunk or put on landscape pages.
+     */
+    private layoutTable(block: TableBlock) {
+        const { theme, margins, pageWidth, pageHeight, wideTables } = this.options;
+        const rows = block.rows;
+        const columnCount = rows[0].length;
+        const plain = rows.map(row => row.map(runs => runs.map(r => r.text).join('')));
+        const cellPadding = 2;
+
+        let fontSize = 10;
+        const longestWords = Array.from({ length: columnCount }, (_, c) => {
+            let longest = 0;
+            for (const row of plain) for (const word of row[c].split(/\s+/)) longest = Math.max(longest, this.measurer.width(word, this.font('bold', fontSize)));
+            return longest;
+        });
+        const wordsWidth = longestWords.reduce((sum, width) => sum + width, 0);
+        const paddingWidth = columnCount * cellPadding * 2;
+
+        let tableWidth = this.contentWidth;
+        const landscape = wordsWidth + paddingWidth > tableWidth && wideTables === 'landscape' && pageHeight > pageWidth;
+        if (landscape) {
+            this.landscapePages = true;
+            this.checkPageBreak(0, true);
+            tableWidth = this.page.width - (pageWidth - this.contentWidth);
+        }
+        // Shrinking is also the fallback for tables too wide even for a landscape page
+        const scale = wordsWidth + paddingWidth > tableWidth && wideTables !== 'wrap' ? Math.max(5, fontSize * (tableWidth - paddingWidth) / wordsWidth) / fontSize : 1;
+        fontSize *= scale;
+
+        const size = fontSize / POINTS_PER_MM;
+        const lineStep = size * LINE_HEIGHT_FACTOR;
+        const cellFont = (r: number, run?: TextInline): FontSpec => {
+            const bold = r === 0 || (!!run && run.style.bold);
+            return { family: run && run.style.code ? 'courier' : this.options.font, style: fontStyle(bold, !!run && run.style.italic), size: fontSize };
+        };
+        const cellLines = (r: number, c: number, width: number) => plain[r][c].split('\n').reduce((lines: string[], line) => lines.concat(this.measurer.split(line, width, cellFont(r))), []);
+
+        const natural = Array.from({ length: columnCount }, (_, c) => Math.max(...plain.map((row, r) => Math.max(...row[c].split('\n').map(line => this.measurer.width(line, cellFont(r)))))) + cellPadding * 2);
+        const minimum = longestWords.map(width => width * scale + cellPadding * 2);
+        const widths = fitColumns(natural, minimum, tableWidth);
+        const wrapped = rows.map((row, r) => row.map((_, c) => cellLines(r, c, widths[c] - cellPadding * 2)));
+        const heights = wrapped.map(row => Math.max(...row.map(lines => lines.length)) * lineStep + cellPadding * 2);
+
+        const border = theme.colors['table-border'] || [80, 80, 80];
+        const headerFill = theme.backgrounds['table-header'] || (theme.dark ? [100, 100, 100] : [180, 180, 180]);
+        const stripeFill = theme.backgrounds['table-stripe'] || (theme.dark ? [35, 35, 35] : [228, 228, 228]);
+        const bodyFill = theme.dark ? [20, 20, 20] : [240, 240, 240];
+
+        const layoutRow = (r: number, top: number) => {
+            let x = this.contentLeft;
+            for (let c = 0; c < columnCount; c++) {
+                const width = widths[c];
+                // Every other body row is striped, starting with the first; the header has no grid lines
+                if (r === 0) this.add({ type: 'rect', x, y: top, width, height: heights[r], fill: headerFill });
+                else this.add({ type: 'rect', x, y: top, width, height: heights[r], fill: r % 2 === 1 ? stripeFill : bodyFill, stroke: border, lineWidth: 0.1 });
+                this.layoutCellRuns(rows[r][c], wrapped[r][c], x, top, width, cellPadding, block.alignments[c] || 'left', size,
+                    run => cellFont(r, run), r === 0 ? (theme.colors['table-header'] || theme.text) : theme.text);
+                x += width;
+            }
+        };
+
+        let top = this.y;
+        // The header stays with the first row
+        const firstHeight = heights[0] + (heights.length > 1 ? heights[1] : 0);
+        if (top + firstHeight > this.contentBottom() && top > margins.top) { this.checkPageBreak(0, true); top = this.y; }
+        layoutRow(0, top);
+        top += heights[0];
+        for (let r = 1; r < rows.length; r++) {
+            if (top + heights[r] > this.contentBottom() && top > margins.top + heights[0]) {
+                this.checkPageBreak(0, true);
+                top = this.y;
+                layoutRow(0, top);
+                top += heights[0];
+            }
+            layoutRow(r, top);
+            top += heights[r];
+        }
+        this.y = top + 8;
+        if (landscape) {
+            this.landscapePages = false;
+            this.portraitPending = true;
+        }
+    }
+
+    /**
+     * Lays out a cell's styled runs over the lines its plain text wrapped into.
+     */
+    private layoutCellRuns(runs: TextInline[], wrapped: string[], cellX: number, cellY: number, cellWidth: number, padding: number,
+        align: string, size: number, runFont: (run: TextInline) => FontSpec, cellColor: number[]) {
+        const { theme } = this.options;
+        let baseline = cellY + padding + size * (2 - LINE_HEIGHT_FACTOR);
+        let run = 0, offset = 0;
+        for (const line of wrapped) {
+            // Match the line's characters to the runs; wrapping drops whitespace at line ends
+            const segments: { run: TextInline, text: string }[] = [];
+            for (const char of line) {
+                while (run < runs.length && (offset >= runs[run].text.length || (runs[run].text[offset] !== char && /\s/.test(runs[run].text[offset])))) {
+                    if (offset >= runs[run].text.length) { run++; offset = 0; } else offset++;
+                }
+                if (run >= runs.length) break;
+                const last = segments[segments.length - 1];
+                if (last && last.run === runs[run]) last.text += char;
+                else segments.push({ run: runs[run], text: char });
+                offset++;
+            }
+
+            const lineWidth = segments.reduce((sum, segment) => sum + this.measurer.width(segment.text, runFont(segment.run)), 0);
+            let x = align === 'right' ? cellX + cellWidth - padding - lineWidth
+                : (align === 'center' ? cellX + (cellWidth - lineWidth) / 2 : cellX + padding);
+
+            for (const segment of segments) {
+                const r = segment.run;
+                const font = runFont(r);
+                const width = this.measurer.width(segment.text, font);
+                if (r.style.highlight || r.style.code) {
+                    const bg = r.style.highlight ? (theme.backgrounds['highlight'] || [255, 255, 0]) : (theme.backgrounds['code'] || (theme.dark ? [40, 40, 40] : [240, 240, 240]));
+                    this.add({ type: 'rect', x, y: baseline - size * 0.85, width, height: size * 1.1, fill: bg });
+                }
+                const color = r.link ? theme.link : cellColor;
+                this.text(segment.text, x, baseline, font, color);
+                if (r.style.strike) this.add({ type: 'line', x1: x, y1: baseline - size * 0.3, x2: x + width, y2: baseline - size * 0.3, color, width: 0.2 });
+                if (r.link && segment.text.trim() && (r.link.url || r.link.heading)) {
+                    const box: LinkBox = { type: 'link', x, y: baseline - size, width, height: size * 1.2 };
+                    if (r.link.url) box.url = r.link.url;
+                    else if (r.link.heading) this.headingLinks.push({ heading: r.link.heading, box });
+                    this.add(box);
+                }
+                x += width;
+            }
+            baseline += size * LINE_HEIGHT_FACTOR;
+        }
+    }
+
+    /**
+     * Endnotes follow the content under their own heading.
+     */
+    private layoutEndnotes() {
+        if (this.endnotes.length === 0) return;
+        this.resumePortrait();
+        const { margins, theme } = this.options;
+        this.y += LINE_HEIGHT;
+        this.checkPageBreak(LINE_HEIGHT * 3);
+        this.headings.push({ level: this.options.merged ? 0 : 1, text: "Notes", page: this.page, y: this.y - 8 });
+        this.text("Notes", margins.left, this.y, this.font('bold', 16), theme.text);
+        this.y += 8;
+        const font = this.font('normal', 10);
+        for (const entry of this.endnotes) {
+            this.checkPageBreak(5);
+            this.text(`${entry.number}.`, margins.left, this.y, font, theme.text);
+            for (const line of entry.lines) {
+                this.checkPageBreak(5);
+                this.text(line, margins.left + FOOTNOTE_INDENT, this.y, font, theme.text);
+                this.y += 5;
+            }
+            this.y += 1;
+        }
+    }
+
+    /**
+     * Frontmatter properties after the content, grouped by note in merged exports.
+     */
+    private layoutDocumentInfo(notes: LayoutNote[]) {
+        const sections = notes.filter(note => note.info && note.info.length > 0);
+        if (sections.length === 0) return;
+        this.resumePortrait();
+        const { margins, theme, merged } = this.options;
+        const maxLineWidth = this.maxLineWidth;
+        this.y += LINE_HEIGHT;
+        this.checkPageBreak(LINE_HEIGHT * 3);
+        this.headings.push({ level: merged ? 0 : 1, text: "Document Info", page: this.page, y: this.y - 8 });
+        this.text("Document Info", margins.left, this.y, this.font('bold', 16), theme.text);
+        this.y += 8;
+        const keyFont = this.font('bold', 10), valueFont = this.font('normal', 10);
+        // Property names in a column as wide as the longest one, up to a third of the page
+        const keyWidth = Math.min(maxLineWidth / 3, 4 + Math.max(...sections.map(note => Math.max(...(note.info || []).map(([key]) => this.measurer.width(key, keyFont))))));
+        for (const note of sections) {
+            if (merged) {
+                this.checkPageBreak(LINE_HEIGHT * 2);
+                this.text(note.title, margins.left, this.y, this.font('bold'), theme.text);
+                this.y += 6;
+            }
+            for (const [key, value] of note.info || []) {
+                const keyLines = this.measurer.split(key, keyWidth - 4, keyFont);
+                const valueLines = this.measurer.split(value, maxLineWidth - keyWidth, valueFont);
+                for (let row = 0; row < Math.max(keyLines.length, valueLines.length); row++) {
+                    this.checkPageBreak(5);
+                    if (row < keyLines.length) this.text(keyLines[row], margins.left, this.y, keyFont, theme.text);
+                    if (row < valueLines.length) this.text(valueLines[row], margins.left + keyWidth, this.y, valueFont, theme.text);
+                    this.y += 5;
+                }
+                this.y += 1;
+            }
+            this.y += 2;
+        }
+    }
+
+    /**
+     * Puts each page's footnotes at its bottom, under a short rule.
+     */
+    private layoutPageFootnotes() {
+        const { margins, theme } = this.options;
+        // Footnotes still waiting for room get a page of their own
+        if (this.carriedFootnotes.length > 0) this.checkPageBreak(0, true);
+        this.pageFootnotes.forEach((entries, page) => {
+            const areaTop = page.height - margins.bottom - this.footnoteAreaHeight(entries);
+            page.boxes.push({ type: 'line', x1: margins.left, y1: areaTop + 1, x2: margins.left + this.maxLineWidth / 3, y2: areaTop + 1, color: theme.text, width: 0.2 });
+            let footnoteY = areaTop + 6;
+            for (const entry of entries) {
+                page.boxes.push({ type: 'text', x: margins.left, y: footnoteY - 1.5, text: String(entry.number), font: this.font('normal', 6), color: theme.text });
+                for (const line of entry.lines) {
+                    page.boxes.push({ type: 'text', x: margins.left + FOOTNOTE_INDENT, y: footnoteY, text: line, font: this.font('normal', 9), color: theme.text });
+                    footnoteY += FOOTNOTE_LINE_HEIGHT;
+                }
+            }
+        });
+    }
+
+    /**
+     * Lays out the table of contents below the first page's title, adding pages after it when it doesn't fit.
+     */
+    private layoutToc(tocStartY: number) {
+        const { margins, theme, pageWidth, pageHeight } = this.options;
+        const maxLineWidth = this.maxLineWidth;
+        const rowHeight = 7;
+        const headerHeight = 14;
+        // Lay out the rows first: extra pages shift the page numbers of every heading
+        const rows: { heading: { level: number, text: string, page: LayoutPage, y: number }, page: number, y: number }[] = [];
+        let rowPage = 0, rowY = tocStartY + headerHeight;
+        for (const heading of this.headings) {
+            if (rowY > pageHeight - margins.bottom) { rowPage++; rowY = margins.top; }
+            rows.push({ heading, page: rowPage, y: rowY });
+            rowY += rowHeight;
+        }
+        const tocPages = [this.pages[0]];
+        for (let p = 0; p < rowPage; p++) tocPages.push({ width: pageWidth, height: pageHeight, boxes: [] });
+        this.pages.splice(1, 0, ...tocPages.slice(1));
+
+        tocPages[0].boxes.push({ type: 'text', x: margins.left, y: tocStartY, text: "Table of Contents", font: this.font('bold', 16), color: theme.text });
+        for (const row of rows) {
+            const boxes = tocPages[row.page].boxes;
+            const font = this.font(row.heading.level <= 1 ? 'bold' : 'normal');
+            const indent = Math.max(0, row.heading.level - 1) * 5;
+            const headingPage = this.pages.indexOf(row.heading.page) + 1;
+            const pageLabel = String(headingPage);
+            const labelWidth = this.measurer.width(pageLabel, font);
+            const wrapped = this.measurer.split(row.heading.text, maxLineWidth - indent - labelWidth - 6, font);
+            const entryText = wrapped.length > 1 ? wrapped[0] + '...' : (wrapped[0] || '');
+            boxes.push({ type: 'text', x: margins.left + indent, y: row.y, text: entryText, font, color: theme.text });
+
+            // Dotted leader between the entry and its page number
+            const leaderStart = margins.left + indent + this.measurer.width(entryText, font) + 2;
+            const leaderEnd = pageWidth - margins.right - labelWidth - 2;
+            if (leaderEnd > leaderStart) boxes.push({ type: 'line', x1: leaderStart, y1: row.y, x2: leaderEnd, y2: row.y, color: theme.text, width: 0.2, dash: [0.3, 1] });
+            boxes.push({ type: 'text', x: pageWidth - margins.right, y: row.y, text: pageLabel, font, color: theme.text, align: 'right' });
+            boxes.push({ type: 'link', x: margins.left, y: row.y - 5, width: maxLineWidth, height: rowHeight, page: headingPage, top: row.heading.y });
+        }
+    }
+}
+
+/**
+ * Lays the notes out on pages, one after the other, each starting on a new page.
+ */
+export function layoutDocument(notes: LayoutNote[], options: LayoutOptions, measurer: TextMeasurer): DocumentLayout {
+    return new LayoutEngine(options, measurer).layout(notes);
+}
@@ -1,41 +1,327 @@
-import { Plugin, Notice, ItemView, WorkspaceLeaf, Setting, MarkdownRenderer, TFile, loadPdfJs, PluginSettingTab, App, moment } from 'obsidian';
+import { Plugin, Notice, ItemView, WorkspaceLeaf, Setting, Component, MarkdownRenderer, MarkdownPreviewRenderer, TFile, TFolder, Vault, Modal, FuzzySuggestModal, loadPdfJs, PluginSettingTab, App, moment, requestUrl, normalizePath, getAllTags, getIcon, loadMathJax, renderMath, finishRenderMath, MarkdownView, Menu, DropdownComponent } from 'obsidian';
 import { jsPDF } from "jspdf";
-import autoTable from 'jspdf-autotable';
 import html2canvas from 'html2canvas';
 import { robotoBase64, robotoBoldBase64, robotoItalicBase64, robotoBoldItalicBase64 } from './fonts';
+import { CODE_TOKEN_VARIABLES } from './highlight';
+import { inlineSvgStyles, isDrawableSvg } from './diagramsvg';
+import { definesMacros, resetTexSvg, texSvgMacros, texToSvg } from './texsvg';
+import { installFontFallback } from './fontfallback';
+import { Block, DiagramRender, EmbedInline, Link, LoadedImage, MathRender, PAGE_BREAK_COMMENT, PAGE_BREAK_MARKER, PAGE_BREAK_REGEX, collectFootnotes, parseMarkdown, stripInlineMarkdown } from './parser';
+import { CALLOUT_TYPES, LayoutNote, PX_TO_MM, SourcePosition, getCalloutType, layoutDocument, quoteInsets } from './layout';
+import { createMeasurer, renderLayout } from './renderer';
 
 export const PDF_SIDEBAR_VIEW = "pdf-sidebar-view";
 
+// Where exported PDFs go: the vault, the system share sheet, the browser's downloads, or a temporary file that is shared and deleted
+type ExportTarget = 'vault' | 'share' | 'download' | 'temporary';
+
 interface PdfPluginSettings {
     pdfTheme: 'light' | 'dark' | 'css';
     pageBreaks: string;
+    // The note the sidebar's page breaks are for, and the unsaved ones of notes opened before it, by path
+    pageBreaksNote: string;
+    otherPageBreaks: Record<string, string>;
     showLineNumbersInPreview: boolean;
     applyCss: boolean;
     fontFamily: string;
     customFontPath: string;
+    customFontBoldPath: string;
+    customFontItalicPath: string;
+    customFontBoldItalicPath: string;
+    fallbackFonts: string;
     defaultExportPath: string;
+    exportTarget: ExportTarget;
     showTitle: boolean;
     showFootnote: boolean;
     footnoteTemplate: string;
+    footerCenter: string;
+    footerRight: string;
+    showHeader: boolean;
+    headerLeft: string;
+    headerCenter: string;
+    headerRight: string;
+    headerFooterLogo: string;
+    headerFooterSkipFirst: boolean;
+    headerFooterMirror: boolean;
+    // Even pages use their own templates
+    headerFooterDifferentEven: boolean;
+    evenHeaderLeft: string;
+    evenHeaderCenter: string;
+    evenHeaderRight: string;
+    evenFooterLeft: string;
+    evenFooterCenter: string;
+    evenFooterRight: string;
+    headerFooterSeparator: boolean;
+    showOutline: boolean;
+    showToc: boolean;
+    pageFormat: 'a3' | 'a4' | 'a5' | 'letter' | 'legal' | 'custom';
+    customPageWidth: number;
+    customPageHeight: number;
+    pageOrientation: 'portrait' | 'landscape';
+    marginTop: number;
+    marginRight: number;
+    marginBottom: number;
+    marginLeft: number;
+    pageBreakBeforeHeading: 'none' | 'h1' | 'h2';
+    keepHeadingsWithNext: boolean;
+    footnotePlacement: 'page' | 'end';
+    wideTables: 'wrap' | 'shrink' | 'landscape';
+    subsetFonts: boolean;
+    imageDpi: number;
+    jpegQuality: number;
+    documentAuthor: string;
+    documentLanguage: string;
+    showDocumentInfo: boolean;
+    documentInfoFields: string;
+    batchMode: 'separate' | 'merged';
+    batchSortOrder: 'name' | 'created' | 'frontmatter';
+    batchSortField: string;
+    presets: PdfPreset[];
+    activePreset: string;
+}
+
+// Everything a preset stores: the whole settings object except the presets and the note-specific page breaks
+type PresetSettings = Omit<PdfPluginSettings, 'presets' | 'activePreset' | 'pageBreaks' | 'pageBreaksNote' | 'otherPageBreaks'>;
+
+interface PdfPreset {
+    name: string;
+    settings: Partial<PresetSettings>;
 }
 
 const DEFAULT_SETTINGS: PdfPluginSettings = {
     pdfTheme: 'light',
     pageBreaks: '',
+    pageBreaksNote: '',
+    otherPageBreaks: {},
     showLineNumbersInPreview: false,
     applyCss: true,
     fontFamily: 'helvetica',
     customFontPath: '',
+    customFontBoldPath: '',
+    customFontItalicPath: '',
+    customFontBoldItalicPath: '',
+    fallbackFonts: '',
     defaultExportPath: '',
+    exportTarget: 'vault',
     showTitle: true,
     showFootnote: false,
-    footnoteTemplate: '{title} - {date} {time}'
+    footnoteTemplate: '{title} - {date} {time}',
+    footerCenter: '',
+    footerRight: '',
+    showHeader: false,
+    headerLeft: '',
+    headerCenter: '',
+    headerRight: '',
+    headerFooterLogo: '',
+    headerFooterSkipFirst: false,
+    headerFooterMirror: false,
+    headerFooterDifferentEven: false,
+    evenHeaderLeft: '',
+    evenHeaderCenter: '',
+    evenHeaderRight: '',
+    evenFooterLeft: '',
+    evenFooterCenter: '',
+    evenFooterRight: '',
+    headerFooterSeparator: false,
+    showOutline: true,
+    showToc: false,
+    pageFormat: 'a4',
+    customPageWidth: 210,
+    customPageHeight: 297,
+    pageOrientation: 'portrait',
+    marginTop: 20,
+    marginRight: 15,
+    marginBottom: 15,
+    marginLeft: 15,
+    pageBreakBeforeHeading: 'none',
+    keepHeadingsWithNext: true,
+    footnotePlacement: 'page',
+    wideTables: 'wrap',
+    subsetFonts: true,
+    imageDpi: 0,
+    jpegQuality: 0,
+    documentAuthor: '',
+    documentLanguage: '',
+    showDocumentInfo: false,
+    documentInfoFields: '',
+    batchMode: 'separate',
+    batchSortOrder: 'name',
+    batchSortField: '',
+    presets: [],
+    activePreset: ''
+}
+
+interface ExportProgress {
+    cancelled: boolean;
+    update(done: number, total: number, file: TFile): void;
+}
+
+// What resolving parsed notes needs besides the note: the document (for image sizes), theme and cached callout icons
+interface ResolveContext {
+    doc: jsPDF;
+    isDark: boolean;
+    css: string;
+    colors: Record<string, number[]>;
+    icons: Record<string, LoadedImage | null>;
+}
+
+// Filled in by an export for the sidebar preview: a content hash per page, to reuse drawn pages, where
+// the note's lines are, to scroll to the cursor, and the lines with page break markers
+interface PreviewInfo {
+    pageHashes: string[];
+    sourceLines: SourcePosition[];
+    breakMarkerLines: number[];
+}
+
+// A folder or tag whose notes are exported together
+interface BatchSource {
+    label: string;
+    name: string;
+    folder: string;
+    files: TFile[];
+}
+
+const IMAGE_EXTENSION_REGEX = /\.(png|jpe?g|webp|gif|svg|bmp|avif|ico)$/i;
+
+// Typeset formulas kept between exports; the preview re-renders the same note often
+const MAX_CACHED_FORMULAS = 500;
+
+// Rendered code blocks kept between exports, like formulas
+const MAX_CACHED_DIAGRAMS = 50;
+
+// How long to wait for Mermaid or a plugin to render a code block
+const RENDER_TIMEOUT = 10000;
+
+// Embedded notes can embed other notes up to this depth
+const MAX_EMBED_DEPTH = 5;
+
+// Height of the header and footer logo in mm
+const LOGO_HEIGHT = 7;
+
+// MIME types for image formats that have to be rasterised through a canvas
+const RASTERIZED_IMAGE_TYPES: Record<string, string> = {
+    SVG: 'image/svg+xml', GIF: 'image/gif', BMP: 'image/bmp', AVIF: 'image/avif', ICO: 'image/x-icon'
+};
+
+const PAGE_FORMATS = ['a3', 'a4', 'a5', 'letter', 'legal'];
+const EXPORT_TARGETS: Record<ExportTarget, string> = {
+    vault: 'Save in vault', share: 'Share', download: 'Download', temporary: 'Share, then delete'
+};
+const FONT_FAMILIES = ['helvetica', 'times', 'courier', 'roboto'];
+
+/**
+ * Parses a comma separated list of line numbers.
+ */
+function parsePageBreaks(value: string): number[] {
+    return value.split(',').map(s => parseInt(s.trim())).filter(n => !isNaN(n));
+}
+
+/**
+ * Resolves once a rendered code block has produced output in el and its DOM has stopped changing for a
+ * moment (Mermaid and plugins such as Dataview render asynchronously), or when the timeout runs out.
+ */
+function waitForRender(el: HTMLElement, timeout: number): Promise<void> {
+    const quietPeriod = 200;
+    const hasOutput = () => {
+        const block = el.querySelector('.mermaid, [class*="block-language-"]');
+        return block ? block.childNodes.length > 0 : el.childNodes.length > 0;
+    };
+    return new Promise(resolve => {
+        let quietTimer = 0;
+        const finish = () => {
+            observer.disconnect();
+            window.clearTimeout(quietTimer);
+            window.clearTimeout(timeoutTimer);
+            resolve();
+        };
+        const check = () => {
+            window.clearTimeout(quietTimer);
+            if (hasOutput()) quietTimer = window.setTimeout(finish, quietPeriod);
+        };
+        const observer = new MutationObserver(check);
+        observer.observe(el, { childList: true, subtree: true, attributes: true, characterData: true });
+        const timeoutTimer = window.setTimeout(finish, timeout);
+        check();
+    });
+}
+
+/**
+ * Frontmatter properties for the document info block: the given fields in that order, or all of them except the
+ * plugin's own pdf-* options. Lists are joined with commas and links reduced to their text.
+ */
+function documentInfoProperties(frontmatter: Record<string, any>, fields: string[]): [string, string][] {
+    const keys = fields.length > 0 ? fields : Object.keys(frontmatter).filter(key => key !== 'position' && !key.startsWith('pdf-'));
+    const properties: [string, string][] = [];
+    for (const key of keys) {
+        const value = frontmatter[key];
+        if (value === undefined || value === null) continue;
+        const text = stripInlineMarkdown(Array.isArray(value) ? value.join(', ') : (typeof value === 'object' ? JSON.stringify(value) : String(value)));
+        if (text) properties.push([key, text]);
+    }
+    return properties;
+}
+
+/**
+ * File size for notices, e.g. "740 KB".
+ */
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * 53-bit hash (cyrb53) of a string or bytes, in base 36.
+ */
+function hashContent(data: string | Uint8Array, seed: number = 0): string {
+    let h1 = 0xdeadbeef ^ seed, h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < data.length; i++) {
+        const code = typeof data === 'string' ? data.charCodeAt(i) : data[i];
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * A hash per page of what it draws: its content stream, its size, and the fonts and images the stream
+ * refers to by name (the names are reused between documents, so their data is hashed along).
+ */
+function pageContentHashes(doc: jsPDF): string[] {
+    const internal = (doc as any).internal;
+    const images = internal.collections['addImage_images'] || {};
+    const imageHashes: string[] = [];
+    for (const alias of Object.keys(images)) {
+        const image = images[alias];
+        if (image.data) imageHashes.push(`/I${image.index}:${hashContent(image.data)}`);
+    }
+    const fontList = doc.getFontList();
+    const fonts = Object.keys(fontList).map(family => fontList[family].map(style => {
+        const font = internal.getFont(family, style);
+        return `${font.id}:${font.postScriptName}`;
+    }).join(',')).join(';');
+    const resources = hashContent(fonts + '|' + imageHashes.join(','));
+    const hashes: string[] = [];
+    for (let i = 1; i <= internal.getNumberOfPages(); i++) {
+        const mediaBox = internal.getPageInfo(i).pageContext.mediaBox;
+        hashes.push(hashContent(`${resources}|${mediaBox.topRightX}x${mediaBox.topRightY}|${internal.pages[i].join('\n')}`));
+    }
+    return hashes;
 }
 
 export default class PdfPlugin extends Plugin {
     settings: PdfPluginSettings;
     view: PdfSidebarView;
     private cachedStyles: { colors: Record<string, number[]>, backgrounds: Record<string, number[]>, css: string } | null = null;
+    private cachedStylesKey = '';
+    private mathCache = new Map<string, MathRender | null>();
+    private diagramCache = new Map<string, DiagramRender | null>();
+    // Characters without a glyph in any export font, reported after an export
+    private missingGlyphs = new Set<string>();
+    // pdf-preset names that match no preset, reported after an export
+    private missingPresets = new Set<string>();
 
     async onload() {
         try {
@@ -45,18 +331,80 @@ export default class PdfPlugin extends Plugin {
             this.addRibbonIcon('dice', 'PDF Settings', () => this.activateView());
             this.addCommand({ id: 'export-pdf', name: 'Export current file to PDF', callback: () => this.exportToPdf() });
             this.addCommand({ id: 'open-pdf-sidebar', name: 'Open PDF Settings Sidebar', callback: () => this.activateView() });
+            this.addCommand({
+                id: 'insert-page-break', name: 'Insert page break',
+                editorCallback: (editor) => {
+                    // The marker needs a line of its own
+                    const cursor = editor.getCursor();
+                    const line = editor.getLine(cursor.line);
+                    if (line.trim()) editor.replaceRange(`\n${PAGE_BREAK_MARKER}`, { line: cursor.line, ch: line.length });
+                    else editor.replaceRange(PAGE_BREAK_MARKER, { line: cursor.line, ch: 0 }, { line: cursor.line, ch: line.length });
+                    const markerLine = line.trim() ? cursor.line + 1 : cursor.line;
+                    editor.setCursor({ line: markerLine, ch: PAGE_BREAK_MARKER.length });
+                }
+            });
+            this.addCommand({ id: 'export-batch-pdf', name: 'Export folder or tag to PDF', callback: () => new BatchSourceModal(this.app, this).open() });
             this.addSettingTab(new PdfSettingTab(this.app, this));
 
+            // Batch export from the folder context menu
+            this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+                if (!(file instanceof TFolder)) return;
+                menu.addItem(item => item.setTitle('Export folder to PDF').setIcon('download').onClick(() => {
+                    new BatchExportModal(this.app, this, this.getFolderSource(file)).open();
+                }));
+            }));
 
-            // Clear page breaks when switching to a different markdown note
+
+            // The sidebar shows the page breaks of the open note; unsaved ones are kept for when it is opened again
             this.registerEvent(this.app.workspace.on('file-open', async (file) => {
-                if (file && file.extension === 'md') {
-                    this.settings.pageBreaks = '';
-                    await this.saveSettings();
-                    if (this.view) {
-                        this.view.refreshSettings();
-                        this.view.triggerPreview();
-                    }
+                if (!file || file.extension !== 'md' || file.path === this.settings.pageBreaksNote) return;
+                const { settings } = this;
+                if (settings.pageBreaksNote && settings.pageBreaks.trim()) settings.otherPageBreaks[settings.pageBreaksNote] = settings.pageBreaks;
+                settings.pageBreaks = settings.otherPageBreaks[file.path] || '';
+                delete settings.otherPageBreaks[file.path];
+                settings.pageBreaksNote = file.path;
+                await this.saveSettings();
+                if (this.view) {
+                    this.view.refreshSettings();
+                    this.view.triggerPreview();
+                }
+            }));
+            this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+                const { settings } = this;
+                if (settings.pageBreaksNote === oldPath) settings.pageBreaksNote = file.path;
+                else if (settings.otherPageBreaks[oldPath] !== undefined) {
+                    settings.otherPageBreaks[file.path] = settings.otherPageBreaks[oldPath];
+                    delete settings.otherPageBreaks[oldPath];
+                } else return;
+                await this.saveSettings();
+            }));
+            this.registerEvent(this.app.vault.on('delete', async (file) => {
+                if (this.settings.otherPageBreaks[file.path] === undefined) return;
+                delete this.settings.otherPageBreaks[file.path];
+                await this.saveSettings();
+            }));
+
+            // Follow the note in the preview while it is edited, and the cursor when it moves
+            this.registerEvent(this.app.workspace.on('editor-change', (editor, info) => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (!this.view || !info.file || !activeFile || info.file.path !== activeFile.path) return;
+                this.view.triggerPreview();
+                this.view.followCursor();
+            }));
+            this.registerDomEvent(document, 'selectionchange', () => {
+                if (this.view) this.view.followCursor();
+            });
+
+            // Refresh the preview when the open note's pdf-* frontmatter options change
+            let lastOptions = '';
+            this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (!this.view || !activeFile || file.path !== activeFile.path) return;
+                const frontmatter = this.getFrontmatter(file);
+                const options = file.path + JSON.stringify(Object.keys(frontmatter).filter(k => k.startsWith('pdf-')).map(k => [k, frontmatter[k]]));
+                if (options !== lastOptions) {
+                    lastOptions = options;
+                    this.view.triggerPreview();
                 }
             }));
         } catch (e) {
@@ -68,6 +416,8 @@ export default class PdfPlugin extends Plugin {
     async loadSettings() { 
         const data = await this.loadData();
         this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        this.settings.presets = (data && data.presets) || []; // Don't share the default array
+        this.settings.otherPageBreaks = Object.assign({}, data && data.otherPageBreaks);
         // Migration from darkMode to pdfTheme
         if (data && data.hasOwnProperty('darkMode') && !data.hasOwnProperty('pdfTheme')) {
             this.settings.pdfTheme = data.darkMode ? 'dark' : 'light';
@@ -77,6 +427,252 @@ export default class PdfPlugin extends Plugin {
 
     clearStyleCache() {
         this.cachedStyles = null;
+        this.diagramCache.clear();
+    }
+
+    /**
+     * Settings used to export a note: the current settings, then the preset named in its `pdf-preset`
+     * frontmatter key, then its own `pdf-*` frontmatter options. Page breaks from the sidebar and the note add up.
+     */
+    getExportSettings(file: TFile): PdfPluginSettings {
+        const frontmatter = this.getFrontmatter(file);
+        const presetName = frontmatter['pdf-preset'];
+        let preset: PdfPreset | undefined;
+        if (presetName !== undefined && presetName !== null) {
+            preset = this.findPreset(String(presetName));
+            if (!preset) this.missingPresets.add(String(presetName));
+        }
+
+        const overrides = this.getNoteOverrides(file);
+        const settings = Object.assign({}, this.settings, preset ? preset.settings : {}, overrides);
+        settings.pageBreaks = [this.getSidebarPageBreaks(file), overrides.pageBreaks || ''].filter(v => v.trim()).join(',');
+        return settings;
+    }
+
+    /**
+     * The page breaks entered in the sidebar for a note and not saved to it yet.
+     */
+    getSidebarPageBreaks(file: TFile): string {
+        const { settings } = this;
+        // Breaks from before they were kept per note belong to whichever note is open
+        if (file.path === settings.pageBreaksNote || !settings.pageBreaksNote) return settings.pageBreaks;
+        return settings.otherPageBreaks[file.path] || '';
+    }
+
+    private async setSidebarPageBreaks(file: TFile, breaks: string) {
+        const { settings } = this;
+        if (file.path === settings.pageBreaksNote || !settings.pageBreaksNote) settings.pageBreaks = breaks;
+        else if (breaks.trim()) settings.otherPageBreaks[file.path] = breaks;
+        else delete settings.otherPageBreaks[file.path];
+        await this.saveSettings();
+    }
+
+    private getFrontmatter(file: TFile): Record<string, any> {
+        const cache = this.app.metadataCache.getFileCache(file);
+        return (cache && cache.frontmatter) || {};
+    }
+
+    /**
+     * A note's text, from its editor when it is open there. Obsidian saves a couple of seconds after typing
+     * stops, so the file on disk lags behind what the preview should show.
+     */
+    private async readNote(file: TFile): Promise<string> {
+        const leaf = this.app.workspace.getLeavesOfType('markdown').find(l => l.view instanceof MarkdownView && l.view.file === file);
+        if (leaf) return (leaf.view as MarkdownView).editor.getValue();
+        return this.app.vault.read(file);
+    }
+
+    /**
+     * Reads the export options a note sets in its frontmatter. Unknown values are ignored.
+     */
+    getNoteOverrides(file: TFile): Partial<PdfPluginSettings> {
+        const frontmatter = this.getFrontmatter(file);
+        const overrides: Partial<PdfPluginSettings> = {};
+        const value = (key: string) => {
+            const v = frontmatter[key];
+            return v === undefined || v === null || typeof v === 'boolean' ? '' : String(v).trim();
+        };
+
+        const theme = value('pdf-theme').toLowerCase();
+        if (theme === 'light' || theme === 'dark' || theme === 'css') overrides.pdfTheme = theme;
+
+        // A built-in font name, or the vault path of a .ttf file
+        const font = value('pdf-font');
+        if (/\.ttf$/i.test(font)) {
+            overrides.fontFamily = 'custom';
+            overrides.customFontPath = normalizePath(font);
+            // The style files in the settings belong to another font
+            overrides.customFontBoldPath = '';
+            overrides.customFontItalicPath = '';
+            overrides.customFontBoldItalicPath = '';
+        } else if (FONT_FAMILIES.includes(font.toLowerCase())) {
+            overrides.fontFamily = font.toLowerCase();
+        }
+
+        // Either "10, 25" or a YAML list
+        const breaks = frontmatter['pdf-page-breaks'];
+        if (Array.isArray(breaks)) overrides.pageBreaks = breaks.join(',');
+        else if (value('pdf-page-breaks')) overrides.pageBreaks = value('pdf-page-breaks');
+
+        if (frontmatter['pdf-title'] === false) overrides.showTitle = false;
+        else if (value('pdf-title')) overrides.showTitle = true;
+
+        if (frontmatter['pdf-footnote'] === false) overrides.showFootnote = false;
+        else if (value('pdf-footnote')) {
+            overrides.showFootnote = true;
+            overrides.footnoteTemplate = value('pdf-footnote');
+        }
+
+        // A named format, or a custom size in mm such as "148x210"
+        const pageSize = value('pdf-page-size').toLowerCase();
+        const customSize = pageSize.match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)$/);
+        if (customSize) {
+            overrides.pageFormat = 'custom';
+            overrides.customPageWidth = parseFloat(customSize[1]);
+            overrides.customPageHeight = parseFloat(customSize[2]);
+        } else if (PAGE_FORMATS.includes(pageSize)) {
+            overrides.pageFormat = pageSize as PdfPluginSettings['pageFormat'];
+        }
+
+        const orientation = value('pdf-orientation').toLowerCase();
+        if (orientation === 'portrait' || orientation === 'landscape') overrides.pageOrientation = orientation;
+
+        return overrides;
+    }
+
+    /**
+     * The title printed at the top of a note: its `pdf-title` frontmatter key, or the file name.
+     */
+    getNoteTitle(file: TFile): string {
+        const title = this.getFrontmatter(file)['pdf-title'];
+        return typeof title === 'string' && title.trim() ? title.trim() : file.basename;
+    }
+
+    isExcluded(file: TFile): boolean {
+        const exclude = this.getFrontmatter(file)['pdf-exclude'];
+        return exclude === true || exclude === 'true';
+    }
+
+    /**
+     * Moves the sidebar's page breaks into the note's `pdf-page-breaks` frontmatter, so they stay with the note.
+     */
+    async savePageBreaksToNote(file: TFile) {
+        const breaks = Array.from(new Set(parsePageBreaks(`${this.getNoteOverrides(file).pageBreaks || ''},${this.getSidebarPageBreaks(file)}`)))
+            .sort((a, b) => a - b);
+        await this.setSidebarPageBreaks(file, '');
+        await this.setNotePageBreaks(file, breaks);
+        new Notice(`Saved ${breaks.length} page break${breaks.length === 1 ? '' : 's'} to ${file.basename}`);
+    }
+
+    /**
+     * Writes the note's `pdf-page-breaks`, or removes the key when there are none. The sidebar's breaks are
+     * shifted along when that moves the rest of the note.
+     */
+    private async setNotePageBreaks(file: TFile, breaks: number[]) {
+        const countLines = async () => (await this.app.vault.read(file)).split('\n').length;
+        const writeBreaks = (shift: number) => this.app.fileManager.processFrontMatter(file, frontmatter => {
+            if (breaks.length > 0) frontmatter['pdf-page-breaks'] = breaks.map(n => n + shift).join(', ');
+            else delete frontmatter['pdf-page-breaks'];
+        });
+
+        // Writing the key can add lines to the frontmatter, which moves the rest of the note down
+        const linesBefore = await countLines();
+        await writeBreaks(0);
+        const shift = (await countLines()) - linesBefore;
+        if (shift !== 0) {
+            if (breaks.length > 0) await writeBreaks(shift);
+            await this.setSidebarPageBreaks(file, parsePageBreaks(this.getSidebarPageBreaks(file)).map(n => n + shift).join(', '));
+        }
+    }
+
+    /**
+     * Moves a page break set by line number to another line, or removes it (to null), in the sidebar's list
+     * and the note's `pdf-page-breaks`, whichever has it.
+     */
+    async movePageBreak(file: TFile, from: number, to: number | null) {
+        const update = (breaks: number[]) => Array.from(new Set(breaks.filter(n => n !== from).concat(to === null ? [] : [to]))).sort((a, b) => a - b);
+        const sidebarBreaks = parsePageBreaks(this.getSidebarPageBreaks(file));
+        if (sidebarBreaks.includes(from)) await this.setSidebarPageBreaks(file, update(sidebarBreaks).join(', '));
+        const noteBreaks = parsePageBreaks(this.getNoteOverrides(file).pageBreaks || '');
+        if (noteBreaks.includes(from)) await this.setNotePageBreaks(file, update(noteBreaks));
+    }
+
+    /**
+     * Inserts a page break marker before a line (from null), moves the marker on line `from` before another
+     * line, or removes it (to null). Lines are counted from 0, before the change. The note is written once.
+     */
+    async movePageBreakMarker(file: TFile, from: number | null, to: number | null) {
+        await this.editNote(file, text => {
+            const lines = text.split('\n');
+            let target = to;
+            if (from !== null) {
+                // The note changed since the preview was drawn
+                if (!PAGE_BREAK_REGEX.test(lines[from] || '')) return text;
+                lines.splice(from, 1);
+                if (target !== null && target > from) target--;
+            }
+            if (target !== null) lines.splice(target, 0, PAGE_BREAK_COMMENT);
+            return lines.join('\n');
+        });
+    }
+
+    /**
+     * Changes a note's text in one edit: through its editor when it is open there, so the cursor and undo
+     * history are kept, otherwise in the file.
+     */
+    private async editNote(file: TFile, edit: (text: string) => string) {
+        const leaf = this.app.workspace.getLeavesOfType('markdown').find(l => l.view instanceof MarkdownView && l.view.file === file);
+        if (!leaf) {
+            await this.app.vault.process(file, edit);
+            return;
+        }
+        const editor = (leaf.view as MarkdownView).editor;
+        const text = editor.getValue();
+        const updated = edit(text);
+        // Only the part that changed is replaced
+        let start = 0;
+        while (start < text.length && start < updated.length && text[start] === updated[start]) start++;
+        let end = 0;
+        while (end < text.length - start && end < updated.length - start && text[text.length - 1 - end] === updated[updated.length - 1 - end]) end++;
+        if (start === text.length && start === updated.length) return;
+        editor.replaceRange(updated.substring(start, updated.length - end), editor.offsetToPos(start), editor.offsetToPos(text.length - end));
+    }
+
+    findPreset(name: string): PdfPreset | undefined {
+        return this.settings.presets.find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+    }
+
+    createPresetSnapshot(): Partial<PresetSettings> {
+        const snapshot: Partial<PdfPluginSettings> = Object.assign({}, this.settings);
+        delete snapshot.presets;
+        delete snapshot.activePreset;
+        delete snapshot.pageBreaks;
+        delete snapshot.pageBreaksNote;
+        delete snapshot.otherPageBreaks;
+        return snapshot;
+    }
+
+    /**
+     * Overwrites a preset with the current settings.
+     */
+    async updatePreset(name: string) {
+        const preset = this.findPreset(name);
+        if (!preset) return;
+        preset.settings = this.createPresetSnapshot();
+        await this.saveSettings();
+        new Notice(`Preset "${preset.name}" updated`);
+    }
+
+    /**
+     * Loads a preset's snapshot into the current settings.
+     */
+    async applyPreset(name: string) {
+        const preset = this.findPreset(name);
+        if (!preset) return;
+        Object.assign(this.settings, preset.settings);
+        this.settings.activePreset = preset.name;
+        this.clearStyleCache();
+        await this.saveSettings();
     }
 
     private arrayBufferToBase64(buffer: ArrayBuffer): string {
@@ -91,11 +687,13 @@ export default class PdfPlugin extends Plugin {
     /**
      * Fetches heading colors and raw CSS from Obsidian snippets and theme variables.
      */
-    async getCssStyles(forceRefresh: boolean = false): Promise<{ colors: Record<string, number[]>, backgrounds: Record<string, number[]>, css: string }> {
-        if (!forceRefresh && this.cachedStyles) return this.cachedStyles;
+    async getCssStyles(forceRefresh: boolean = false, settings: PdfPluginSettings = this.settings): Promise<{ colors: Record<string, number[]>, backgrounds: Record<string, number[]>, css: string }> {
+        // Presets can switch theme per note, so the cache is only valid for the same theme
+        const cacheKey = `${settings.pdfTheme}|${settings.applyCss}`;
+        if (!forceRefresh && this.cachedStyles && this.cachedStylesKey === cacheKey) return this.cachedStyles;
         
         const styles: { colors: Record<string, number[]>, backgrounds: Record<string, number[]>, css: string } = { colors: {}, backgrounds: {}, css: '' };
-        if (!this.settings.applyCss) return styles;
+        if (!settings.applyCss) return styles;
 
         let combinedCss = '';
         const tempContainer = document.body.createDiv();
@@ -103,8 +701,8 @@ export default class PdfPlugin extends Plugin {
         tempContainer.style.cssText = "position: absolute; top: -9999px; left: -9999px; visibility: hidden; pointer-events: none;";
         // Add common Obsidian classes to trigger snippet selectors
         let themeClass = 'theme-light';
-        if (this.settings.pdfTheme === 'dark') themeClass = 'theme-dark';
-        else if (this.settings.pdfTheme === 'css') {
+        if (settings.pdfTheme === 'dark') themeClass = 'theme-dark';
+        else if (settings.pdfTheme === 'css') {
             themeClass = document.body.classList.contains('theme-dark') ? 'theme-dark' : 'theme-light';
         }
         tempContainer.className = `${themeClass} markdown-rendered markdown-preview-view`;
@@ -137,11 +735,11 @@ export default class PdfPlugin extends Plugin {
             return this.hexToRgb(colorStr);
         };
 
-        // Detect colors for H1-H6, title, bold, italic, underline, strike, highlight, code
+        // Detect colors for H1-H6, title, bold, italic, underline, strike, highlight, code, links
         const selectors = {
             'h1': 'h1', 'h2': 'h2', 'h3': 'h3', 'h4': 'h4', 'h5': 'h5', 'h6': 'h6',
             'title': 'div.inline-title', 'bold': 'strong', 'italic': 'em',
-            'underline': 'u', 'strikethrough': 's', 'highlight': 'mark', 'code': 'code'
+            'underline': 'u', 'strikethrough': 's', 'highlight': 'mark', 'code': 'code', 'link': 'a'
         };
 
         for (const [key, selector] of Object.entries(selectors)) {
@@ -175,6 +773,50 @@ export default class PdfPlugin extends Plugin {
             }
         }
 
+        // Syntax highlighting colors for code blocks (e.g. --code-keyword), resolved through a probe element
+        for (const [tokenType, variable] of Object.entries(CODE_TOKEN_VARIABLES)) {
+            if (!window.getComputedStyle(tempContainer).getPropertyValue(variable).trim()) continue;
+            const probe = tempContainer.createSpan();
+            probe.style.color = `var(${variable})`;
+            const parsed = parseColor(window.getComputedStyle(probe).color);
+            if (parsed) styles.colors[`code-${tokenType}`] = parsed;
+        }
+
+        // Horizontal rule and checkbox colors
+        for (const [key, variable] of Object.entries({ hr: '--hr-color', checkbox: '--checkbox-color', blockquote: '--blockquote-border-color' })) {
+            if (!window.getComputedStyle(tempContainer).getPropertyValue(variable).trim()) continue;
+            const probe = tempContainer.createSpan();
+            probe.style.color = `var(${variable})`;
+            const parsed = parseColor(window.getComputedStyle(probe).color);
+            if (parsed) styles.colors[key] = parsed;
+        }
+
+        // Table header, stripe and border colors, read from a sample table so snippets styling th and tr apply too
+        const visible = (value: string) => value !== 'transparent' && !/^rgba\(.*,\s*0\)$/.test(value);
+        const table = tempContainer.createEl('table');
+        const headerCell = window.getComputedStyle(table.createEl('thead').createEl('tr').createEl('th', { text: 'x' }));
+        const tableBody = table.createEl('tbody');
+        const bodyCell = window.getComputedStyle(tableBody.createEl('tr').createEl('td', { text: 'x' }));
+        const stripeRow = tableBody.createEl('tr');
+        const stripeCell = window.getComputedStyle(stripeRow.createEl('td', { text: 'x' }));
+        const tableColors: [Record<string, number[]>, string, string][] = [
+            [styles.backgrounds, 'table-header', headerCell.backgroundColor],
+            [styles.colors, 'table-header', headerCell.color],
+            [styles.backgrounds, 'table-stripe', visible(stripeCell.backgroundColor) ? stripeCell.backgroundColor : window.getComputedStyle(stripeRow).backgroundColor],
+            [styles.colors, 'table-border', bodyCell.borderTopColor]
+        ];
+        for (const [target, key, value] of tableColors) {
+            const parsed = visible(value) ? parseColor(value) : null;
+            if (parsed) target[key] = parsed;
+        }
+
+        // Callout colors are stored as "r, g, b" (e.g. --callout-warning)
+        for (const callout of CALLOUT_TYPES) {
+            const value = window.getComputedStyle(tempContainer).getPropertyValue(callout.variable).trim();
+            const parsed = value ? parseColor(`rgb(${value})`) : null;
+            if (parsed) styles.colors[`callout-${callout.name}`] = parsed;
+        }
+
         // Capture page background
         const pageBg = window.getComputedStyle(tempContainer).backgroundColor;
         const parsedPageBg = parseColor(pageBg);
@@ -185,9 +827,20 @@ export default class PdfPlugin extends Plugin {
         tempContainer.remove();
         styles.css = combinedCss;
         this.cachedStyles = styles;
+        this.cachedStylesKey = cacheKey;
         return styles;
     }
 
+    /**
+     * Returns the jsPDF format for the configured page size (custom sizes are [width, height] in mm).
+     */
+    getPageFormat(settings: PdfPluginSettings = this.settings): string | number[] {
+        if (settings.pageFormat !== 'custom') return settings.pageFormat;
+        const width = settings.customPageWidth > 0 ? settings.customPageWidth : DEFAULT_SETTINGS.customPageWidth;
+        const height = settings.customPageHeight > 0 ? settings.customPageHeight : DEFAULT_SETTINGS.customPageHeight;
+        return [width, height];
+    }
+
     private hexToRgb(hex: string): number[] | null {
         const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex.trim());
         return result ? [
@@ -197,6 +850,397 @@ export default class PdfPlugin extends Plugin {
         ] : null;
     }
 
+    /**
+     * Resolves a link to another note: to a heading when it points back into the note itself, otherwise to an
+     * obsidian:// URI.
+     */
+    private resolveLink(link: Link, file: TFile) {
+        if (link.url || link.heading) return;
+        const destFile = link.path ? this.app.metadataCache.getFirstLinkpathDest(link.path, file.path) : file;
+        // Nested heading links (#Parent#Child) point at the last heading; block links (#^id) have no target here
+        if (destFile === file && link.subpath && !link.subpath.startsWith('^')) {
+            link.heading = stripInlineMarkdown(link.subpath.split('#').pop() || '');
+            return;
+        }
+        const destPath = destFile ? destFile.path : link.path;
+        link.url = `obsidian://open?vault=${encodeURIComponent(this.app.vault.getName())}&file=${encodeURIComponent(destPath + (link.subpath ? '#' + link.subpath : ''))}`;
+    }
+
+    /**
+     * Loads what parsed blocks refer to: linked notes, embedded notes and images, formulas, Mermaid and plugin
+     * code blocks and callout icons. width is the content width in mm, which quotes narrow. embedStack holds
+     * the embeds being resolved, to stop circular embeds.
+     */
+    private async resolveBlocks(blocks: Block[], source: TFile, context: ResolveContext, embedStack: string[], width: number) {
+        for (const block of blocks) {
+            if (block.type === 'code') {
+                if (this.isRenderedCodeBlock(block.language)) {
+                    block.render = await this.renderCodeBlock(block.language, block.lines.map(l => l.text).join('\n'), source, Math.round(width / PX_TO_MM), context.isDark, context.css);
+                }
+            } else if (block.type === 'math') {
+                block.render = await this.renderTex(block.tex, true, context.isDark);
+            } else if (block.type === 'table') {
+                for (const row of block.rows) for (const cell of row) for (const run of cell) if (run.link) this.resolveLink(run.link, source);
+            } else if (block.type === 'quote') {
+                if (block.callout) {
+                    const callout = getCalloutType(block.callout.type);
+                    const accent = context.colors[`callout-${callout.name}`] || callout.color;
+                    const iconKey = `${callout.icon}|${accent.join(',')}`;
+                    if (!(iconKey in context.icons)) context.icons[iconKey] = await this.getCalloutIcon(callout.icon, accent);
+                    block.icon = context.icons[iconKey];
+                    // Folded callouts only show their title
+                    if (block.callout.fold === '-') continue;
+                }
+                const insets = quoteInsets(!!block.callout);
+                await this.resolveBlocks(block.children, source, context, embedStack, width - insets.left - insets.right);
+            } else if (block.type === 'paragraph') {
+                for (const inline of block.inlines) {
+                    if (inline.type === 'text' && inline.link) this.resolveLink(inline.link, source);
+                    else if (inline.type === 'math') inline.render = await this.renderTex(inline.tex, inline.display, context.isDark);
+                    else if (inline.type === 'embed') await this.resolveEmbed(inline, source, context, embedStack, width);
+                }
+            }
+        }
+    }
+
+    /**
+     * Loads an embedded note or section (![[Note]], ![[Note#Heading]], ![[Note#^block]]) and parses it, or loads
+     * an embedded image; sets the embed's error when neither works.
+     */
+    private async resolveEmbed(embed: EmbedInline, source: TFile, context: ResolveContext, embedStack: string[], width: number) {
+        const noteEmbed = embed.source.startsWith('![[') ? await this.getEmbeddedNote(embed.source, source) : null;
+        if (noteEmbed) {
+            if (noteEmbed.lines === null) embed.error = `Section not found: ${noteEmbed.target}`;
+            else if (embedStack.includes(noteEmbed.key)) embed.error = `Circular embed: ${noteEmbed.target}`;
+            else if (embedStack.length > MAX_EMBED_DEPTH) embed.error = `Embed depth limit reached: ${noteEmbed.target}`;
+            else {
+                // Embedded sections can reference footnotes defined elsewhere in their note
+                const footnotes = collectFootnotes((await this.app.vault.cachedRead(noteEmbed.file)).split('\n'));
+                embed.note = parseMarkdown(noteEmbed.lines, { footnotes, source: noteEmbed.file.path });
+                await this.resolveBlocks(embed.note, noteEmbed.file, context, [...embedStack, noteEmbed.key], width);
+            }
+            return;
+        }
+
+        try {
+            const image = await this.loadImage(embed.target, source);
+            if (!image) {
+                embed.error = `${IMAGE_EXTENSION_REGEX.test(embed.target) ? 'Image' : 'File'} not found: ${embed.target}`;
+                return;
+            }
+            if (image.width === undefined || image.height === undefined) {
+                const props = context.doc.getImageProperties(image.data);
+                image.width = props.width; image.height = props.height;
+            }
+            embed.image = image;
+        } catch (e) {
+            console.error("Image load error:", e);
+            embed.error = `Could not load image: ${embed.target}`;
+        }
+    }
+
+    /**
+     * Resolves ![[Note]], ![[Note#Heading]] and ![[Note#^block]] to the lines to render (null if the section doesn't exist).
+     * Returns null when the embed isn't a Markdown note, e.g. an image.
+     */
+    private async getEmbeddedNote(embed: string, source: TFile): Promise<{ file: TFile, target: string, key: string, lines: string[] | null } | null> {
+        const match = embed.match(/^!\[\[([^\]|]*)(?:\|[^\]]*)?\]\]$/);
+        if (!match) return null;
+        const target = match[1].trim();
+        const hashIndex = target.indexOf('#');
+        const linkpath = hashIndex === -1 ? target : target.substring(0, hashIndex);
+        const subpath = hashIndex === -1 ? '' : target.substring(hashIndex + 1).trim();
+        const noteFile = linkpath ? this.app.metadataCache.getFirstLinkpathDest(linkpath, source.path) : source;
+        if (!noteFile || noteFile.extension !== 'md') return null;
+
+        const key = `${noteFile.path}#${subpath}`;
+        const lines = (await this.app.vault.cachedRead(noteFile)).split('\n');
+        if (!subpath) return { file: noteFile, target, key, lines };
+
+        const cache = this.app.metadataCache.getFileCache(noteFile);
+        if (subpath.startsWith('^')) {
+            const blockId = subpath.substring(1);
+            const block = cache && cache.blocks ? (cache.blocks[blockId] || cache.blocks[blockId.toLowerCase()]) : undefined;
+            return { file: noteFile, target, key, lines: block ? lines.slice(block.position.start.line, block.position.end.line + 1) : null };
+        }
+
+        // A section runs from its heading to the next heading of the same or a higher level
+        const headings = (cache && cache.headings) || [];
+        const headingName = (subpath.split('#').pop() || '').trim().toLowerCase();
+        const index = headings.findIndex(h => h.heading.trim().toLowerCase() === headingName);
+        if (index === -1) return { file: noteFile, target, key, lines: null };
+        const next = headings.slice(index + 1).find(h => h.level <= headings[index].level);
+        return { file: noteFile, target, key, lines: lines.slice(headings[index].position.start.line, next ? next.position.start.line : lines.length) };
+    }
+
+    /**
+     * Resolves a link or a path relative to the note's folder (../ allowed) to a vault file.
+     */
+    private resolveVaultFile(target: string, file: TFile): TFile | null {
+        const linked = this.app.metadataCache.getFirstLinkpathDest(target, file.path);
+        if (linked) return linked;
+
+        const segments: string[] = file.parent && file.parent.path !== '/' ? file.parent.path.split('/') : [];
+        for (const segment of target.split('/')) {
+            if (segment === '..') segments.pop();
+            else if (segment !== '.' && segment !== '') segments.push(segment);
+        }
+        const relativeFile = this.app.vault.getAbstractFileByPath(normalizePath(segments.join('/')));
+        return relativeFile instanceof TFile ? relativeFile : null;
+    }
+
+    /**
+     * Loads a vault or remote (http/https) image. Formats jsPDF can't embed directly are rasterised to PNG.
+     * Returns null if the image doesn't exist in the vault.
+     */
+    private async loadImage(target: string, file: TFile): Promise<LoadedImage | null> {
+        let buffer: ArrayBuffer;
+        let extension: string;
+        let source = target;
+        if (/^https?:\/\//i.test(target)) {
+            const response = await requestUrl({ url: target });
+            buffer = response.arrayBuffer;
+            const contentTypeKey = Object.keys(response.headers).find(k => k.toLowerCase() === 'content-type');
+            const contentType = contentTypeKey ? response.headers[contentTypeKey].split(';')[0].trim() : '';
+            extension = contentType.startsWith('image/') ? contentType.substring(6).replace('+xml', '') : (target.split(/[?#]/)[0].split('.').pop() || '');
+        } else {
+            const imageFile = this.resolveVaultFile(target, file);
+            if (!imageFile) return null;
+            buffer = await this.app.vault.readBinary(imageFile);
+            extension = imageFile.extension;
+            source = imageFile.path;
+        }
+
+        let format = extension.toUpperCase(); if (format === 'JPG') format = 'JPEG';
+        if (['PNG', 'JPEG', 'WEBP'].includes(format)) return { data: new Uint8Array(buffer), format, source };
+        // Unknown extensions are still handed to the browser, which may be able to decode them
+        const image = await this.rasterizeImage(buffer, RASTERIZED_IMAGE_TYPES[format] || `image/${extension.toLowerCase()}`);
+        image.source = source;
+        return image;
+    }
+
+    /**
+     * Typesets TeX as SVG, so the formula can be drawn as vector paths. Formulas the bundled MathJax can't
+     * typeset, e.g. with macros another plugin added to Obsidian's, are captured from Obsidian's rendering as an
+     * image instead. Results are cached per formula.
+     */
+    async renderTex(tex: string, display: boolean, isDark: boolean): Promise<MathRender | null> {
+        // Images carry the text color, SVGs get it when drawn
+        const formula = `${display ? '$$' : '$'}${tex}`;
+        // An SVG depends on the macros earlier formulas of the export defined
+        const svgKey = `svg|${hashContent(texSvgMacros())}|${formula}`, imageKey = `${isDark ? 'dark' : 'light'}|${formula}`;
+        // Formulas that define macros are typeset every time, so the formulas after them can use the macros
+        if (!definesMacros(tex)) {
+            for (const key of [svgKey, imageKey]) {
+                const cached = this.mathCache.get(key);
+                if (cached !== undefined) return cached;
+            }
+        }
+
+        let result: MathRender | null = null;
+        let key = svgKey;
+        try {
+            const math = texToSvg(tex, display);
+            const svg = new DOMParser().parseFromString(math.markup, 'image/svg+xml').documentElement;
+            if (svg.tagName.toLowerCase() !== 'svg') throw new Error(`Unreadable SVG for ${tex}`);
+            result = { width: math.width, height: math.height, depth: math.depth, svg: svg as unknown as SVGSVGElement };
+        } catch (e) {
+            key = imageKey;
+            result = await this.rasterizeTex(tex, display, isDark);
+        }
+
+        if (this.mathCache.size >= MAX_CACHED_FORMULAS) this.mathCache.clear();
+        this.mathCache.set(key, result);
+        return result;
+    }
+
+    /**
+     * Captures MathJax's HTML rendering of a formula as a PNG, measuring where its baseline is.
+     */
+    private async rasterizeTex(tex: string, display: boolean, isDark: boolean): Promise<MathRender | null> {
+        await loadMathJax();
+        const container = document.body.createDiv();
+        container.style.cssText = `position: absolute; left: -9999px; top: 0; color: ${isDark ? '#ffffff' : '#000000'};`;
+        try {
+            const mathEl = renderMath(tex, display);
+            mathEl.style.display = 'inline-block'; mathEl.style.margin = '0';
+            container.appendChild(mathEl);
+            // A zero-size inline block sits on the baseline
+            const probe = container.createSpan();
+            probe.style.cssText = 'display: inline-block; width: 0; height: 0;';
+            await finishRenderMath();
+            if (mathEl.querySelector('mjx-merror')) return null;
+
+            const emPx = parseFloat(window.getComputedStyle(mathEl).fontSize) || 16;
+            const rect = mathEl.getBoundingClientRect();
+            const baseline = probe.getBoundingClientRect().top;
+            const canvas = await html2canvas(mathEl, { backgroundColor: null, scale: 3, logging: false });
+            return {
+                width: rect.width / emPx, height: (baseline - rect.top) / emPx, depth: (rect.bottom - baseline) / emPx,
+                image: canvas.toDataURL('image/png')
+            };
+        } catch (e) {
+            console.error("Math render error:", e);
+            return null;
+        } finally {
+            container.remove();
+        }
+    }
+
+    /**
+     * Whether a fenced code block is drawn by Obsidian or a plugin (Mermaid, Dataview, Excalidraw, ...)
+     * rather than shown as code.
+     */
+    isRenderedCodeBlock(language: string): boolean {
+        if (!language) return false;
+        if (language === 'mermaid') return true;
+        // Code block processors registered by plugins, by language (not part of the public API)
+        const processors = (MarkdownPreviewRenderer as any).codeBlockPostProcessors;
+        return !!processors && Object.prototype.hasOwnProperty.call(processors, language);
+    }
+
+    /**
+     * Renders a code block offscreen through Obsidian's Markdown renderer, at the given width in pixels.
+     * A lone SVG in the output (Mermaid, Excalidraw) is kept for drawing as vectors; anything else is captured as a PNG.
+     */
+    async renderCodeBlock(language: string, code: string, file: TFile, width: number, isDark: boolean, css: string): Promise<DiagramRender | null> {
+        const key = `${isDark ? 'dark' : 'light'}|${width}|${file.path}|${language}\n${code}`;
+        const cached = this.diagramCache.get(key);
+        if (cached !== undefined) return cached;
+
+        const container = document.body.createDiv();
+        container.style.cssText = `position: absolute; left: -9999px; top: 0; width: ${width}px;`;
+        container.className = `${isDark ? 'theme-dark' : 'theme-light'} markdown-rendered markdown-preview-view`;
+        if (css) container.createEl('style').textContent = css;
+        const content = container.createDiv();
+        // Children registered by the renderer (e.g. Dataview queries) are unloaded with it
+        const component = new Component();
+        component.load();
+        let result: DiagramRender | null = null;
+        try {
+            const fence = code.includes('```') ? '~~~~' : '```';
+            await MarkdownRenderer.render(this.app, `${fence}${language}\n${code}\n${fence}`, content, file.path, component);
+            await waitForRender(content, RENDER_TIMEOUT);
+
+            const block = (content.querySelector('.mermaid, [class*="block-language-"]') || content) as HTMLElement;
+            const svgs = block.querySelectorAll('svg');
+            const svg = svgs.length === 1 ? svgs[0] : null;
+            if (svg && (block.textContent || '').trim() === (svg.textContent || '').trim() && isDrawableSvg(svg)) {
+                const rect = svg.getBoundingClientRect();
+                if (rect.width > 0 && rect.height > 0) result = { width: rect.width, height: rect.height, svg: inlineSvgStyles(svg) };
+            } else {
+                const rect = block.getBoundingClientRect();
+                if (rect.width > 0 && rect.height > 0) {
+                    const canvas = await html2canvas(block, { backgroundColor: null, scale: 2, logging: false, useCORS: true });
+                    result = { width: rect.width, height: rect.height, image: canvas.toDataURL('image/png') };
+                }
+            }
+        } catch (e) {
+            console.error(`Error rendering ${language} block:`, e);
+        } finally {
+            component.unload();
+            container.remove();
+        }
+
+        if (this.diagramCache.size >= MAX_CACHED_DIAGRAMS) this.diagramCache.clear();
+        this.diagramCache.set(key, result);
+        return result;
+    }
+
+    /**
+     * Renders a Lucide icon in the given color as a PNG for a callout title.
+     */
+    private async getCalloutIcon(iconId: string, color: number[]): Promise<LoadedImage | null> {
+        const svg = getIcon(iconId);
+        if (!svg) return null;
+        svg.setAttribute('width', '48'); svg.setAttribute('height', '48');
+        svg.setAttribute('stroke', `rgb(${color.join(',')})`);
+        try {
+            const markup = new XMLSerializer().serializeToString(svg);
+            return await this.rasterizeImage(new TextEncoder().encode(markup).buffer as ArrayBuffer, 'image/svg+xml');
+        } catch (e) {
+            console.error("Callout icon error:", e);
+            return null;
+        }
+    }
+
+    /**
+     * Draws an image the browser can decode (SVG, first frame of a GIF, BMP, ...) onto a canvas and returns it as PNG.
+     */
+    private rasterizeImage(buffer: ArrayBuffer, mimeType: string): Promise<LoadedImage> {
+        return new Promise((resolve, reject) => {
+            const url = URL.createObjectURL(new Blob([buffer], { type: mimeType }));
+            const img = new Image();
+            img.onload = () => {
+                try {
+                    // SVGs without an explicit size report 0; vector images are drawn at 2x to stay sharp
+                    const width = img.naturalWidth || 300, height = img.naturalHeight || 150;
+                    const scale = mimeType === 'image/svg+xml' ? 2 : 1;
+                    const canvas = document.createElement('canvas');
+                    canvas.width = width * scale; canvas.height = height * scale;
+                    const context = canvas.getContext('2d');
+                    if (!context) throw new Error("Canvas is not available");
+                    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+                    resolve({ data: canvas.toDataURL('image/png'), format: 'PNG', width, height });
+                } catch (e) {
+                    reject(e);
+                } finally {
+                    URL.revokeObjectURL(url);
+                }
+            };
+            img.onerror = () => {
+                URL.revokeObjectURL(url);
+                reject(new Error(`Unsupported image format (${mimeType})`));
+            };
+            img.src = url;
+        });
+    }
+
+    /**
+     * Scales an image down to `pixelWidth` (0 keeps its size) and, with a JPEG quality (1-100), recompresses it as
+     * JPEG on the given background color. The original is kept when the result wouldn't be smaller.
+     */
+    private compressImage(image: LoadedImage, pixelWidth: number, jpegQuality: number, background: number[]): Promise<LoadedImage> {
+        const width = image.width || 0, height = image.height || 0;
+        const scale = pixelWidth > 0 && pixelWidth < width ? pixelWidth / width : 1;
+        if (!width || !height || (scale === 1 && !jpegQuality)) return Promise.resolve(image);
+        return new Promise((resolve, reject) => {
+            const data = image.data;
+            const url = typeof data === 'string' ? data : URL.createObjectURL(new Blob([data], { type: `image/${image.format.toLowerCase()}` }));
+            const release = () => { if (typeof data !== 'string') URL.revokeObjectURL(url); };
+            const img = new Image();
+            img.onload = () => {
+                try {
+                    const canvas = document.createElement('canvas');
+                    canvas.width = Math.max(1, Math.round(width * scale)); canvas.height = Math.max(1, Math.round(height * scale));
+                    const context = canvas.getContext('2d');
+                    if (!context) throw new Error("Canvas is not available");
+                    // JPEG has no transparency, so transparent areas take the color behind the image
+                    const jpeg = jpegQuality > 0 || image.format === 'JPEG';
+                    if (jpeg) {
+                        context.fillStyle = `rgb(${background.join(',')})`;
+                        context.fillRect(0, 0, canvas.width, canvas.height);
+                    }
+                    context.imageSmoothingQuality = 'high';
+                    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+                    const compressed = jpeg ? canvas.toDataURL('image/jpeg', (jpegQuality || 92) / 100) : canvas.toDataURL('image/png');
+                    // Base64 takes 4 characters for every 3 bytes
+                    const originalSize = typeof data === 'string' ? data.length * 3 / 4 : data.length;
+                    resolve(compressed.length * 3 / 4 < originalSize ? { data: compressed, format: jpeg ? 'JPEG' : 'PNG', width, height, source: image.source } : image);
+                } catch (e) {
+                    reject(e);
+                } finally {
+                    release();
+                }
+            };
+            img.onerror = () => {
+                release();
+                reject(new Error(`Could not decode image (${image.format})`));
+            };
+            img.src = url;
+        });
+    }
+
     async activateView() {
         const { workspace } = this.app;
         let leaf = workspace.getLeavesOfType(PDF_SIDEBAR_VIEW)[0];
@@ -210,28 +1254,40 @@ export default class PdfPlugin extends Plugin {
         if (leaf) workspace.revealLeaf(leaf);
     }
     
-    async generatePdfData(file: TFile, showLineNumbers: boolean = false): Promise<ArrayBuffer | null> {
-        const content = await this.app.vault.read(file);
-        const lines = content.split('\n');
+    /**
+     * Renders a note to PDF. Several notes are merged into one document, each starting on a new page with its title;
+     * documentTitle then names the document in its properties. Returns null if the export is cancelled through the progress notice.
+     * preview, if given, receives what the sidebar preview needs besides the PDF.
+     */
+    async generatePdfData(files: TFile | TFile[], showLineNumbers: boolean = false, progress?: ExportProgress, documentTitle?: string, preview?: PreviewInfo): Promise<ArrayBuffer | null> {
+        const notes = Array.isArray(files) ? files : [files];
+        const file = notes[0];
+        const isMerged = notes.length > 1;
+        const settings = this.getExportSettings(file);
+        // Macros a note defines don't carry over to other exports
+        resetTexSvg();
         
-        // Initialize jsPDF with A4 format
-        const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+        // Initialize jsPDF with the configured page size and orientation
+        const doc = new jsPDF({
+            orientation: settings.pageOrientation === 'landscape' ? 'l' : 'p', unit: 'mm', format: this.getPageFormat(settings),
+            compress: true, putOnlyUsedFonts: settings.subsetFonts
+        });
         const pageHeight = doc.internal.pageSize.height;
         const pageWidth = doc.internal.pageSize.width;
         
         // Fetch CSS styles early
-        const cssStyles = await this.getCssStyles();
-        const { colors: cssColors, backgrounds: cssBackgrounds, css: rawSnippetCss } = cssStyles;
+        const cssStyles = await this.getCssStyles(false, settings);
+        const { colors: cssColors, backgrounds: cssBackgrounds } = cssStyles;
 
         // Theme-based colors
         let isDark = false;
         let bgColor = [255, 255, 255];
         let textColor = [0, 0, 0];
 
-        if (this.settings.pdfTheme === 'dark') {
+        if (settings.pdfTheme === 'dark') {
             isDark = true;
             bgColor = [0, 0, 0]; textColor = [255, 255, 255];
-        } else if (this.settings.pdfTheme === 'css') {
+        } else if (settings.pdfTheme === 'css') {
             isDark = document.body.classList.contains('theme-dark');
             if (cssBackgrounds['page']) {
                 bgColor = cssBackgrounds['page'];
@@ -241,49 +1297,17 @@ export default class PdfPlugin extends Plugin {
             textColor = isDark ? [255, 255, 255] : [0, 0, 0];
         }
 
-        const originalAddPage = doc.addPage.bind(doc);
         const builtInFonts = ['helvetica', 'times', 'courier'];
-        const isBuiltIn = builtInFonts.includes(this.settings.fontFamily);
-        const activeFont = isBuiltIn ? this.settings.fontFamily : (this.settings.fontFamily === 'roboto' ? 'Roboto' : 'custom-font');
-
-        doc.addPage = function(...args: any[]) {
-            const result = originalAddPage.apply(this, args);
-            // Save current state
-            const curFill = this.getFillColor();
-            const curText = this.getTextColor();
-            
-            // Draw background
-            this.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
-            this.rect(0, 0, pageWidth, pageHeight, 'F');
-            
-            // Restore state so styles persist across pages
-            this.setFillColor(curFill);
-            this.setTextColor(curText);
-            this.setFont(activeFont); // Restore font
-            return result;
-        };
-
-        // Load Custom Font if needed
-        if (this.settings.fontFamily === 'custom' && this.settings.customFontPath) {
-            const fontFile = this.app.vault.getAbstractFileByPath(this.settings.customFontPath);
-            if (fontFile instanceof TFile && fontFile.extension === 'ttf') {
-                try {
-                    const binary = await this.app.vault.readBinary(fontFile);
-                    const base64 = this.arrayBufferToBase64(binary);
-                    const fontName = fontFile.name;
-                    doc.addFileToVFS(fontName, base64);
-                    doc.addFont(fontName, activeFont, 'normal', 'Identity-H');
-                    doc.addFont(fontName, activeFont, 'bold', 'Identity-H');
-                    doc.addFont(fontName, activeFont, 'italic', 'Identity-H');
-                    doc.addFont(fontName, activeFont, 'bolditalic', 'Identity-H');
-                } catch (e) {
-                    console.error("Error loading custom font:", e);
-                    new Notice("Error loading custom font: " + e);
-                }
-            } else {
-                new Notice("Custom font file not found at: " + this.settings.customFontPath);
+        const isBuiltIn = builtInFonts.includes(settings.fontFamily);
+        const activeFont = isBuiltIn ? settings.fontFamily : (settings.fontFamily === 'roboto' ? 'Roboto' : 'custom-font');
+
+        // Load Custom Font if needed; styles without a file of their own use the regular one
+        if (settings.fontFamily === 'custom' && settings.customFontPath && await this.addTtfFont(doc, settings.customFontPath, activeFont, 'normal')) {
+            const stylePaths: Record<string, string> = { bold: settings.customFontBoldPath, italic: settings.customFontItalicPath, bolditalic: settings.customFontBoldItalicPath };
+            for (const [style, path] of Object.entries(stylePaths)) {
+                if (!path.trim() || !(await this.addTtfFont(doc, path.trim(), activeFont, style))) await this.addTtfFont(doc, settings.customFontPath, activeFont, style);
             }
-        } else if (this.settings.fontFamily === 'roboto') {
+        } else if (settings.fontFamily === 'roboto') {
             doc.addFileToVFS('Roboto-Regular.ttf', robotoBase64);
             doc.addFont('Roboto-Regular.ttf', 'Roboto', 'normal');
             doc.addFileToVFS('Roboto-Bold.ttf', robotoBoldBase64);
@@ -294,533 +1318,634 @@ export default class PdfPlugin extends Plugin {
             doc.addFont('Roboto-BoldItalic.ttf', 'Roboto', 'bolditalic');
         }
 
-        doc.setFillColor(bgColor[0], bgColor[1], bgColor[2]);
-        doc.rect(0, 0, pageWidth, pageHeight, 'F');
-        doc.setTextColor(textColor[0], textColor[1], textColor[2]);
-        doc.setFont(activeFont, "normal");
-
-        const margin = 15;
-        const maxLineWidth = pageWidth - (margin * 2);
-        const lineHeight = 6; 
-        let y = 20;
-        let cursorX = margin;
-
-        // Render document title (filename) if enabled
-        if (this.settings.showTitle) {
-            doc.setFont(activeFont, "bold");
-            doc.setFontSize(24);
-            const titleText = file.basename || "Untitled";
-            
-            // Apply title color if available (from .inline-title)
-            const titleColor = cssColors['title'];
-            if (titleColor) doc.setTextColor(titleColor[0], titleColor[1], titleColor[2]);
-            else doc.setTextColor(textColor[0], textColor[1], textColor[2]);
-
-            doc.text(titleText, (pageWidth - doc.getTextWidth(titleText)) / 2, y);
-            y += 15;
-
-            // Reset text color after title
-            doc.setTextColor(textColor[0], textColor[1], textColor[2]);
+        // Fallback fonts, in order, for characters the main font has no glyph for
+        const fallbackFamilies: string[] = [];
+        for (const path of settings.fallbackFonts.split(/[\n,]/).map(p => p.trim()).filter(p => p)) {
+            const family = `fallback-${fallbackFamilies.length}`;
+            if (await this.addTtfFont(doc, path, family, 'normal')) fallbackFamilies.push(family);
         }
-
-        // Parse custom page breaks from settings
-        const breakLines = this.settings.pageBreaks.split(',').map(s => parseInt(s.trim())).filter(n => !isNaN(n));
-        doc.setFont(activeFont, "normal");
-        doc.setFontSize(11);
-
-        /**
-         * Checks if a page break is needed and adds a new page if necessary.
-         */
-        const checkPageBreak = (neededHeight: number = 0, force: boolean = false) => {
-            if (force || y + neededHeight > pageHeight - margin) {
-                doc.addPage();
-                y = 20;
-                cursorX = margin;
-                return true;
+        const fontFallback = installFontFallback(doc, fallbackFamilies);
+
+        const { marginTop, marginRight, marginBottom, marginLeft } = settings;
+        const maxLineWidth = pageWidth - marginLeft - marginRight;
+
+        // Parse every note and load what it refers to; this is the slow part, so progress is reported per note
+        const context: ResolveContext = { doc, isDark, css: cssStyles.css, colors: cssColors, icons: {} };
+        const infoFields = settings.documentInfoFields.split(',').map(f => f.trim()).filter(f => f);
+        const layoutNotes: LayoutNote[] = [];
+        for (let n = 0; n < notes.length; n++) {
+            const note = notes[n];
+            if (progress) {
+                if (progress.cancelled) return null;
+                progress.update(n, notes.length, note);
             }
-            return false;
+            const blocks = parseMarkdown((await this.readNote(note)).split('\n'), { source: note.path });
+            if (preview && n === 0) preview.breakMarkerLines = blocks.filter(block => block.type === 'pageBreak').map(block => block.line);
+            await this.resolveBlocks(blocks, note, context, [`${note.path}#`], maxLineWidth);
+            layoutNotes.push({
+                title: this.getNoteTitle(note) || "Untitled", blocks,
+                info: settings.showDocumentInfo ? documentInfoProperties(this.getFrontmatter(note), infoFields) : undefined
+            });
         }
+        if (progress && progress.cancelled) return null;
+
+        const layout = layoutDocument(layoutNotes, {
+            pageWidth, pageHeight, margins: { top: marginTop, right: marginRight, bottom: marginBottom, left: marginLeft },
+            font: activeFont,
+            theme: { dark: isDark, text: textColor, background: bgColor, link: cssColors['link'] || (isDark ? [120, 170, 255] : [0, 102, 204]), colors: cssColors, backgrounds: cssBackgrounds },
+            merged: isMerged, showTitle: settings.showTitle, showToc: settings.showToc, showLineNumbers,
+            // Page breaks by line number only apply to a single note
+            breakLines: isMerged ? [] : parsePageBreaks(settings.pageBreaks),
+            breakBeforeLevel: { none: 0, h1: 1, h2: 2 }[settings.pageBreakBeforeHeading],
+            keepHeadingsWithNext: settings.keepHeadingsWithNext, footnotePlacement: settings.footnotePlacement, wideTables: settings.wideTables
+        }, createMeasurer(doc));
+
+        // Images already in the PDF, by file and printed pixel width
+        const addedImages = new Map<string, { image: LoadedImage, alias: string }>();
 
-        let inFrontmatter = lines.length > 0 && lines[0].trim() === '---';
-        let frontmatterEnded = false;
-
-        // Iterate through each line of the Markdown content
-        for (let i = 0; i < lines.length; i++) {
-            if (breakLines.includes(i + 1)) checkPageBreak(0, true);
-            let line = lines[i].trimEnd();
-            
-            let hasRenderedLineNumber = false;
-            /**
-             * Renders the line number on the left margin.
-             */
-            const renderLineNumber = (targetY: number) => {
-                if (showLineNumbers && !hasRenderedLineNumber && (!inFrontmatter || frontmatterEnded)) {
-                    doc.saveGraphicsState();
-                    doc.setFontSize(8); doc.setTextColor(100, 100, 100);
-                    doc.text(`${i + 1}`, 5, targetY);
-                    doc.restoreGraphicsState();
-                    hasRenderedLineNumber = true;
-                }
-            };
-
-            // Skip YAML frontmatter
-            if (inFrontmatter && !frontmatterEnded) {
-                if (i > 0 && line.trim() === '---') { frontmatterEnded = true; inFrontmatter = false; }
-                continue; 
-            }
-
-            // Remove block IDs (^identifier)
-            line = line.replace(/\s+\^[a-zA-Z0-9-]+$/, '');
-
-            // Handle Callouts and Blockquotes (> [!info])
-            if (line.trim().startsWith('>')) {
-                const calloutLines = [];
-                let tempI = i;
-                while (tempI < lines.length && lines[tempI].trim().startsWith('>')) {
-                    calloutLines.push(lines[tempI].trim());
-                    tempI++;
-                }
-                const calloutContent = calloutLines.join('\n');
-                
-                const hiddenContainer = document.body.createDiv();
-                hiddenContainer.style.position = 'absolute'; hiddenContainer.style.left = '-9999px';
-                hiddenContainer.style.width = '700px'; 
-                hiddenContainer.className = `${isDark ? 'theme-dark' : 'theme-light'} markdown-rendered markdown-preview-view`;
-                
-                // Use the styles already fetched at the start of generatePdfData
-                let injection = rawSnippetCss || '';
-                // Force text color and remove margins to eliminate white space
-                injection += `
-                    .markdown-rendered { background-color: ${isDark ? '#000000' : '#ffffff'} !important; color: ${isDark ? '#ffffff' : '#000000'} !important; }
-                    .callout, blockquote { margin: 0 !important; padding: 12px !important; }
-                    .callout-title, .callout-content { color: ${isDark ? '#ffffff' : '#000000'} !important; }
-                `;
-                const styleEl = hiddenContainer.createEl('style'); styleEl.textContent = injection;
-
-                await MarkdownRenderer.render(this.app, calloutContent, hiddenContainer, file.path, this);
-                await new Promise(r => setTimeout(r, 250)); 
-
+        /**
+         * Adds an image at the resolution and quality of the File Size settings. An image used several times is
+         * embedded once and referred to by its alias.
+         */
+        const addImage = async (image: LoadedImage, x: number, top: number, width: number, height: number, background: number[]) => {
+            const pixelWidth = settings.imageDpi > 0 ? Math.ceil(width / 25.4 * settings.imageDpi) : 0;
+            const key = `${image.source}|${pixelWidth}`;
+            let added = image.source ? addedImages.get(key) : undefined;
+            if (!added) {
+                let compressed = image;
                 try {
-                    // Target the specific rendered element to avoid container whitespace
-                    const targetEl = hiddenContainer.querySelector('.callout, blockquote') || hiddenContainer;
-                    const canvas = await html2canvas(targetEl as HTMLElement, { 
-                        backgroundColor: isDark ? '#000000' : '#ffffff', 
-                        scale: 2,
-                        logging: false,
-                        useCORS: true
-                    });
-                    
-                    const imgData = canvas.toDataURL('image/png');
-                    let imgWidth = (canvas.width / 2) * 0.264583, imgHeight = (canvas.height / 2) * 0.264583;
-                    const maxW = pageWidth - margin * 2;
-                    if (imgWidth > maxW) { const ratio = maxW / imgWidth; imgWidth = maxW; imgHeight = imgHeight * ratio; }
-                    
-                    if (checkPageBreak(imgHeight + 2)) cursorX = margin;
-                    renderLineNumber(y + (imgHeight / 2));
-                    doc.addImage(imgData, 'PNG', margin, y, imgWidth, imgHeight);
-                    y += imgHeight + 2;
-                    i = tempI - 1; 
+                    compressed = await this.compressImage(image, pixelWidth, settings.jpegQuality, background);
                 } catch (e) {
-                    console.error("Callout render error:", e);
-                } finally { hiddenContainer.remove(); }
-                continue;
-            }
-
-            // Handle Tables
-            if (line.trim().startsWith('|') && line.trim().endsWith('|')) {
-                checkPageBreak(lineHeight);
-                renderLineNumber(y + 4);
-                const tableRows: string[][] = [];
-                let tempI = i;
-                while (tempI < lines.length && lines[tempI].trim().startsWith('|')) {
-                    const row = lines[tempI].trim().split('|').map(c => c.trim()).filter((c, idx, arr) => idx > 0 && idx < arr.length - 1);
-                    tableRows.push(row);
-                    tempI++;
+                    console.error("Image compression error:", e);
                 }
-                if (tableRows.length >= 2) {
-                    autoTable(doc, {
-                        head: [tableRows[0]], body: tableRows.slice(2), startY: y, margin: { left: margin, right: margin }, theme: 'grid',
-                        styles: { fontSize: 10, cellPadding: 2, textColor: isDark ? 255 : 0, fillColor: isDark ? [20, 20, 20] : [240, 240, 240], lineColor: 80 },
-                        headStyles: { fillColor: isDark ? [100, 100, 100] : [180, 180, 180], textColor: isDark ? 255 : 0, fontStyle: 'bold' },
-                    });
-                    y = (doc as any).lastAutoTable.finalY + 8;
-                    i = tempI - 1; continue;
-                }
-            }
-
-            // Handle Headings (#, ##, ...)
-            const headingMatch = line.match(/^(#{1,6})\s+(.*)/);
-            if (headingMatch) {
-                const level = headingMatch[1].length; const text = headingMatch[2];
-                doc.setFont(activeFont, "bold");
-                doc.setFontSize([22, 18, 16, 14, 12, 12][level - 1] || 12);
-                
-                // Use CSS color if available
-                const hColor = cssColors[`h${level}`];
-                if (hColor) doc.setTextColor(hColor[0], hColor[1], hColor[2]);
-                else doc.setTextColor(textColor[0], textColor[1], textColor[2]);
-                
-                if (y > margin + 5) y += (level === 1 ? 8 : 6);
-                checkPageBreak(8); renderLineNumber(y);
-                const splitTitle = doc.splitTextToSize(text, maxLineWidth);
-                for (const splitLine of splitTitle) { checkPageBreak(8); doc.text(splitLine, margin, y); y += (level === 1 ? 8 : 5); }
-                doc.setFont(activeFont, "normal"); doc.setFontSize(11);
-                doc.setTextColor(textColor[0], textColor[1], textColor[2]);
-                y += 1; continue;
+                added = { image: compressed, alias: `image-${addedImages.size}` };
+                if (image.source) addedImages.set(key, added);
             }
+            doc.addImage(added.image.data, added.image.format, x, top, width, height, image.source ? added.alias : undefined);
+        };
+        await renderLayout(doc, layout, { background: bgColor, font: activeFont, showOutline: settings.showOutline, addImage });
+        const noteStarts = layout.noteStarts.map((page, n) => ({ title: layoutNotes[n].title, page, file: notes[n] }));
+
+        // Header and footer, each with left, center and right slots inside the page margins
+        const headerSlots = [settings.headerLeft, settings.headerCenter, settings.headerRight];
+        const footerSlots = [settings.footnoteTemplate, settings.footerCenter, settings.footerRight];
+        const differentEven = settings.headerFooterDifferentEven;
+        const evenHeaderSlots = differentEven ? [settings.evenHeaderLeft, settings.evenHeaderCenter, settings.evenHeaderRight] : headerSlots;
+        const evenFooterSlots = differentEven ? [settings.evenFooterLeft, settings.evenFooterCenter, settings.evenFooterRight] : footerSlots;
+        const hasHeader = settings.showHeader && [...headerSlots, ...evenHeaderSlots].some(t => t.trim());
+        const hasFooter = settings.showFootnote && [...footerSlots, ...evenFooterSlots].some(t => t.trim());
+        if (hasHeader || hasFooter) {
+            const totalPages = doc.internal.getNumberOfPages();
+            doc.setFontSize(9);
+            // Header sits 8mm above where the content starts; footer 5mm below where it stops
+            const headerY = Math.max(marginTop - 8, 8);
+            // Landscape table pages have their own size
+            let footerY = pageHeight - Math.max(marginBottom - 5, 4);
+            let pageRight = pageWidth - marginRight;
+            const now = moment();
 
-            checkPageBreak(lineHeight);
-            let indentOffset = margin;
-            let textStartX = margin;
-            
-            // Handle Lists and Indentation
-            const listMatch = line.match(/^(\s*)([-*]|\d+\.)\s+(.*)/);
-            const indentMatch = !listMatch ? line.match(/^(\s+)(.*)/) : null;
-            let textContent = line;
-
-            if (listMatch) {
-                textContent = listMatch[3];
-                indentOffset = (listMatch[1].replace(/\t/g, '    ').length * 1.5) + margin; 
-                let displayMarker = ['-', '*'].includes(listMatch[2]) ? '•' : listMatch[2];
-                doc.text(displayMarker, indentOffset, y);
-                textStartX = indentOffset + doc.getTextWidth(displayMarker) + 2;
-            } else if (indentMatch) {
-                textContent = indentMatch[2];
-                textStartX = (indentMatch[1].replace(/\t/g, '    ').length * 1.5) + margin;
-            }
-            cursorX = textStartX;
-
-            // Split line into text parts and embedded image links
-            const parts = textContent.split(/(!\[\[.*?\]\])/g);
-            for (const part of parts) {
-                if (part.startsWith('![[')) {
-                    // Handle Embedded Images (![[image.png]])
-                    const innerMatch = part.match(/!\[\[(.*?)\]\]/);
-                    if (innerMatch) {
-                        const linkParts = innerMatch[1].split('|');
-                        const imageFile = this.app.metadataCache.getFirstLinkpathDest(linkParts[0], file.path);
-                        if (imageFile) {
-                            try {
-                                const arrayBuffer = await this.app.vault.readBinary(imageFile);
-                                let format = imageFile.extension.toUpperCase(); if (format === 'JPG') format = 'JPEG';
-                                if (['PNG', 'JPEG', 'WEBP'].includes(format)) {
-                                    const props = doc.getImageProperties(new Uint8Array(arrayBuffer));
-                                    let imgWidth = props.width * 0.264583;
-                                    let caption = '';
-                                    
-                                    // Parse link parts for caption and dimensions
-                                    if (linkParts.length > 1) {
-                                        // Standard Obsidian behavior: if a part is a number, it's width.
-                                        // If not, it's the description/caption.
-                                        for (let j = 1; j < linkParts.length; j++) {
-                                            const p = linkParts[j];
-                                            const pW = parseInt(p);
-                                            if (!isNaN(pW)) {
-                                                imgWidth = pW * 0.264583;
-                                            } else {
-                                                caption = p;
-                                            }
-                                        }
-                                    }
-                                    
-                                    // Move to a new line if there is preceding text
-                                    if (cursorX > textStartX) { 
-                                        y += lineHeight + 2; cursorX = textStartX; 
-                                    }
-                                    
-                                    let availableW = pageWidth - margin * 2;
-                                    if (imgWidth > availableW) imgWidth = availableW;
-                                    const imgHeight = (props.height * imgWidth) / props.width;
-                                    
-                                    // Spacing and sizes for caption (matching user request)
-                                    const captionFontSize = 11;
-                                    const captionPadding = 3;
-                                    const imagePadding = 1.5; // Small padding around the image (approx 5-6 pixels)
-                                    
-                                    // Calculate wrap if caption exists
-                                    let wrappedCaption: string[] = [];
-                                    let captionBoxHeight = 0;
-                                    const lineStep = captionFontSize * 0.45;
-                                    
-                                    if (caption) {
-                                        const maxCaptionWidth = imgWidth - 4;
-                                        wrappedCaption = doc.splitTextToSize(caption, maxCaptionWidth);
-                                        captionBoxHeight = (wrappedCaption.length * lineStep) + captionPadding;
-                                    }
-
-                                    const totalBoxHeight = imgHeight + (caption ? captionBoxHeight + imagePadding : imagePadding * 2);
-                                    const totalNeededHeight = totalBoxHeight + 5;
-
-                                    if (checkPageBreak(totalNeededHeight)) cursorX = textStartX;
-                                    renderLineNumber(y + (imgHeight / 2));
-                                    
-                                    // Always respect indentation level, stop auto-centering
-                                    const xPos = textStartX + imagePadding;
-                                    
-                                    const boxX = xPos - imagePadding;
-                                    const boxY = y - imagePadding;
-                                    const boxWidth = imgWidth + (imagePadding * 2);
-
-                                    // Draw gray background box for BOTH image and caption
-                                    doc.saveGraphicsState();
-                                    doc.setFillColor(isDark ? 40 : 240, isDark ? 40 : 240, isDark ? 40 : 240);
-                                    doc.rect(boxX, boxY, boxWidth, totalBoxHeight, 'F');
-                                    doc.restoreGraphicsState();
-
-                                    // Draw the image
-                                    doc.addImage(new Uint8Array(arrayBuffer), format, xPos, y, imgWidth, imgHeight);
-                                    
-                                    if (caption) {
-                                        doc.saveGraphicsState();
-                                        doc.setFont(activeFont, "normal");
-                                        doc.setFontSize(captionFontSize);
-                                        
-                                        const textYBase = y + imgHeight + (imagePadding / 2);
-                                        
-                                        // Draw pure black/white text lines centered relative to the box/image
-                                        doc.setTextColor(textColor[0], textColor[1], textColor[2]);
-                                        let currentLineY = textYBase + (captionFontSize * 0.35);
-                                        const centerX = boxX + (boxWidth / 2);
-                                        for (const line of wrappedCaption) {
-                                            doc.text(line, centerX, currentLineY, { align: 'center' });
-                                            currentLineY += lineStep;
-                                        }
-                                        
-                                        doc.restoreGraphicsState();
-                                        y += totalBoxHeight + 4;
-                                    } else {
-                                        y += totalBoxHeight + 2; 
-                                    }
-                                    cursorX = textStartX;
-                                }
-                            } catch (e) {}
-                        }
-                    }
-                } else if (part.length > 0) {
-                    // Handle Text and Inline Styling
-                    let textPart = part;
-                    
-                    // Replace wikilinks [[link|display]] with their display text
-                    while(textPart.includes('[[')) {
-                        const s = textPart.indexOf('[['), e = textPart.indexOf(']]', s);
-                        if (e === -1) break;
-                        const inner = textPart.substring(s + 2, e);
-                        const display = inner.includes('|') ? inner.split('|')[1] : inner;
-                        textPart = textPart.substring(0, s) + display + textPart.substring(e + 2);
+            let logo: LoadedImage | null = null;
+            if (settings.headerFooterLogo && [...headerSlots, ...footerSlots, ...evenHeaderSlots, ...evenFooterSlots].some(t => t.includes('{logo}'))) {
+                try {
+                    logo = await this.loadImage(settings.headerFooterLogo, file);
+                    if (logo && (logo.width === undefined || logo.height === undefined)) {
+                        const props = doc.getImageProperties(logo.data);
+                        logo.width = props.width; logo.height = props.height;
                     }
-                    
-                    // Tokenize for bold, italic, colors, math, underline, strike, highlight and code
-                    const tokens = textPart.split(/(\$\$[\s\S]*?\$\$)|(\$[^$\n]+\$)|(<span style="color:rgb[^>]*>.*?<\/span>)|(<u>.*?<\/u>)|(<s>.*?<\/s>)|(<mark>.*?<\/mark>)|(<code>.*?<\/code>)|(==.*?==)|(~~.*?~~)|(`.*?`)|(\*\*\*|\*\*|\*|_)/g).filter(t => t !== undefined && t !== '');
-                    let isBold = false, isItalic = false;
-                    for (const token of tokens) {
-                        if (!token) continue;
-                        if (token === '***') { isBold = !isBold; isItalic = !isItalic; continue; }
-                        if (token === '**') { isBold = !isBold; continue; }
-                        if (token === '*' || token === '_') { isItalic = !isItalic; continue; }
-
-                        let isUnderline = false, isStrike = false, isHighlight = false, isCode = false;
-                        let textToRender = token;
-
-                        // Check for HTML and Markdown tags
-                        if (token.startsWith('<u>') && token.endsWith('</u>')) { isUnderline = true; textToRender = token.substring(3, token.length - 4); }
-                        else if ((token.startsWith('<s>') && token.endsWith('</s>')) || (token.startsWith('~~') && token.endsWith('~~'))) { 
-                            isStrike = true; textToRender = token.startsWith('~~') ? token.substring(2, token.length - 2) : token.substring(3, token.length - 4); 
-                        }
-                        else if ((token.startsWith('<mark>') && token.endsWith('</mark>')) || (token.startsWith('==') && token.endsWith('=='))) { 
-                            isHighlight = true; textToRender = token.startsWith('==') ? token.substring(2, token.length - 2) : token.substring(6, token.length - 7); 
-                        }
-                        else if ((token.startsWith('<code>') && token.endsWith('</code>')) || (token.startsWith('`') && token.endsWith('`'))) { 
-                            isCode = true; textToRender = token.startsWith('`') ? token.substring(1, token.length - 1) : token.substring(6, token.length - 7); 
-                        }
-
-                        const colorMatch = textToRender.match(/<span style="color:rgb\(([^)]+)\)">(.*?)<\/span>/);
-                        const blockMathMatch = textToRender.match(/^\$\$([\s\S]*?)\$\$/);
-                        const inlineMathMatch = textToRender.match(/^\$([^$\n]+)\$/);
-
-                        let hasColor = false, isMath = false;
-
-                        if (colorMatch) {
-                            const colors = colorMatch[1].split(',').map(c => parseInt(c.trim()));
-                            if (colors.length === 3) doc.setTextColor(colors[0], colors[1], colors[2]);
-                            textToRender = colorMatch[2]; hasColor = true;
-                        } else if (blockMathMatch || inlineMathMatch) {
-                            // Handle LaTeX Math using MarkdownRenderer + html2canvas
-                            isMath = true;
-                            const mathSource = blockMathMatch ? blockMathMatch[1] : inlineMathMatch[1];
-                            const isBlock = !!blockMathMatch;
-                            const hiddenContainer = document.body.createDiv();
-                            hiddenContainer.style.position = 'absolute'; hiddenContainer.style.left = '-9999px'; hiddenContainer.style.top = '0';
-                            if (isBlock) hiddenContainer.style.width = '600px'; 
-                            hiddenContainer.style.backgroundColor = isDark ? '#000000' : '#ffffff';
-                            hiddenContainer.style.color = isDark ? '#ffffff' : '#000000';
-                            hiddenContainer.style.padding = '0px'; 
-                            
-                            await MarkdownRenderer.render(this.app, isBlock ? `$$${mathSource}$$` : `$${mathSource}$`, hiddenContainer, file.path, this);
-                            await new Promise(r => setTimeout(r, 200)); // Wait for MathJax
-                            
-                            try {
-                                let targetEl = hiddenContainer;
-                                if (!isBlock) {
-                                    const mathEl = hiddenContainer.querySelector('.math-inline') || hiddenContainer.querySelector('.jax-element');
-                                    if (mathEl instanceof HTMLElement) targetEl = mathEl;
-                                }
-                                const canvas = await html2canvas(targetEl, { backgroundColor: null, scale: 2 });
-                                const imgData = canvas.toDataURL('image/png');
-                                let imgWidth = (canvas.width / 2) * 0.264583, imgHeight = (canvas.height / 2) * 0.264583;
-                                
-                                if (isBlock) {
-                                    const maxW = pageWidth - margin * 2; 
-                                    if (imgWidth > maxW) { const ratio = maxW / imgWidth; imgWidth = maxW; imgHeight = imgHeight * ratio; }
-                                    if (y + imgHeight + 2 > pageHeight - margin) { doc.addPage(); y = 20; cursorX = margin; }
-                                    renderLineNumber(y + (imgHeight / 2)); 
-                                    doc.addImage(imgData, 'PNG', margin, y, imgWidth, imgHeight);
-                                    y += imgHeight + 5; cursorX = margin;
-                                } else {
-                                    if (cursorX + imgWidth > pageWidth - margin) { y += lineHeight + 2; checkPageBreak(); cursorX = textStartX; }
-                                    renderLineNumber(y); 
-                                    doc.addImage(imgData, 'PNG', cursorX, y - (imgHeight * 0.95), imgWidth, imgHeight);
-                                    cursorX += imgWidth + 1;
-                                }
-                            } catch (e) { renderLineNumber(y); doc.text("[Math Error]", cursorX, y); cursorX += 20; }
-                            finally { hiddenContainer.remove(); }
-                            continue;
-                        } else { if (!hasColor) doc.setTextColor(textColor[0], textColor[1], textColor[2]); }
-
-                        if (!isMath) {
-                            // Render normal text with word wrapping
-                            const currentBoldColor = cssColors['bold'];
-                            const currentItalicColor = cssColors['italic'];
-                            
-                            // Apply colors - Prioritize italic for bold-italic cases
-                            if (isItalic && currentItalicColor) doc.setTextColor(currentItalicColor[0], currentItalicColor[1], currentItalicColor[2]);
-                            else if (isBold && currentBoldColor) doc.setTextColor(currentBoldColor[0], currentBoldColor[1], currentBoldColor[2]);
-                            else if (!hasColor) doc.setTextColor(textColor[0], textColor[1], textColor[2]);
-
-                            const renderFont = isCode ? 'courier' : activeFont;
-                            doc.setFont(renderFont, (isBold && isItalic) ? 'bolditalic' : (isBold ? 'bold' : (isItalic ? 'italic' : 'normal')));
-                            
-                            const words = textToRender.split(/(\s+)/);
-                            for (const word of words) {
-                                if (word.length === 0) continue;
-                                const wordWidth = doc.getTextWidth(word);
-                                if (cursorX + wordWidth > pageWidth - margin) { 
-                                    y += lineHeight; checkPageBreak(); cursorX = textStartX; 
-                                    if (word.trim() === '') continue; 
-                                }
-                                if (cursorX === textStartX && word.trim() === '') continue;
-                                renderLineNumber(y); 
-
-                                // Highlight background
-                                if (isHighlight) {
-                                    const hBg = cssBackgrounds['highlight'] || [255, 255, 0];
-                                    doc.setFillColor(hBg[0], hBg[1], hBg[2]);
-                                    doc.rect(cursorX, y - 4, wordWidth, 5, 'F');
-                                }
-                                // Code background
-                                if (isCode) {
-                                    const cBg = cssBackgrounds['code'] || (isDark ? [40, 40, 40] : [240, 240, 240]);
-                                    doc.setFillColor(cBg[0], cBg[1], cBg[2]);
-                                    doc.rect(cursorX, y - 4, wordWidth, 5, 'F');
-                                }
-
-                                doc.text(word, cursorX, y); 
-
-                                // Underline
-                                if (isUnderline) {
-                                    const uCol = cssColors['underline'] || (hasColor ? [0,0,0] : (isDark ? [255,255,255] : [0,0,0]));
-                                    doc.setDrawColor(uCol[0], uCol[1], uCol[2]);
-                                    doc.setLineWidth(0.2);
-                                    doc.line(cursorX, y + 0.5, cursorX + wordWidth, y + 0.5);
-                                }
-                                // Strikethrough
-                                if (isStrike) {
-                                    doc.setLineWidth(0.2);
-                                    doc.line(cursorX, y - 1.5, cursorX + wordWidth, y - 1.5);
-                                }
-
-                                cursorX += wordWidth;
-                            }
-                        }
-                        if (hasColor) doc.setTextColor(textColor[0], textColor[1], textColor[2]);
+                    // Same size on every page, so it is compressed once and embedded once
+                    if (logo && logo.width && logo.height) {
+                        const pixelWidth = settings.imageDpi > 0 ? Math.ceil(LOGO_HEIGHT * logo.width / logo.height / 25.4 * settings.imageDpi) : 0;
+                        logo = await this.compressImage(logo, pixelWidth, settings.jpegQuality, bgColor);
                     }
-                }
+                } catch (e) { console.error("Logo load error:", e); }
+                if (!logo) new Notice("Logo image not found: " + settings.headerFooterLogo);
             }
-            renderLineNumber(y); y += lineHeight;
-        }
 
-        // Add Footnotes
-        if (this.settings.showFootnote) {
-            const totalPages = doc.internal.getNumberOfPages();
-            doc.setFontSize(9);
-            const footerY = pageHeight - 10;
-            const now = moment();
-            
-            for (let i = 1; i <= totalPages; i++) {
-                doc.setPage(i);
-                doc.setTextColor(textColor[0], textColor[1], textColor[2]);
-                doc.setFont(activeFont, "normal"); // Ensure font is reset
-                
-                let text = this.settings.footnoteTemplate;
-                
+            const fillTemplate = (template: string, page: number, note: TFile, title: string) => {
                 // Allow custom date formats inside {date:FORMAT}
-                text = text.replace(/{date:([^}]+)}/g, (match, format) => now.format(format));
+                let text = template.replace(/{date:([^}]+)}/g, (match, format) => now.format(format));
                 
                 // Standard replacements
                 text = text.replace(/{date}/g, now.format('YYYY-MM-DD'))
                     .replace(/{time}/g, now.format('HH:mm'))
-                    .replace(/{title}/g, file.basename)
-                    .replace(/{page}/g, i.toString())
+                    .replace(/{title}/g, title)
+                    .replace(/{page}/g, page.toString())
                     .replace(/{total}/g, totalPages.toString());
 
-                doc.text(text, margin, footerY);
+                // Note and vault details last, so their values are never treated as variables
+                const frontmatter = this.getFrontmatter(note);
+                return text.replace(/{fm:([^}]+)}/g, (match, key) => {
+                        const value = frontmatter[key.trim()];
+                        if (value === undefined || value === null) return '';
+                        return Array.isArray(value) ? value.join(', ') : String(value);
+                    })
+                    .replace(/{folder}/g, note.parent && !note.parent.isRoot() ? note.parent.name : '')
+                    .replace(/{vault}/g, this.app.vault.getName());
+            };
+
+            /**
+             * Draws one slot; {logo} puts the logo image in front of the slot's text.
+             */
+            const drawSlot = (template: string, align: 'left' | 'center' | 'right', baseline: number, page: number, noteStart: { title: string, file: TFile }) => {
+                if (!template.trim()) return;
+                const text = fillTemplate(template.replace(/{logo}/g, ''), page, noteStart.file, noteStart.title).trim();
+                const logoHeight = LOGO_HEIGHT;
+                const logoWidth = logo && template.includes('{logo}') ? logoHeight * (logo.width || 1) / (logo.height || 1) : 0;
+                const gap = logoWidth && text ? 2 : 0;
+                const totalWidth = logoWidth + gap + (text ? doc.getTextWidth(text) : 0);
+                const x = align === 'left' ? marginLeft : (align === 'center' ? (marginLeft + pageRight - totalWidth) / 2 : pageRight - totalWidth);
+                if (logo && logoWidth) doc.addImage(logo.data, logo.format, x, baseline - 1.2 - logoHeight / 2, logoWidth, logoHeight, 'header-footer-logo');
+                if (text) doc.text(text, x + logoWidth + gap, baseline);
+            };
+
+            for (let i = 1; i <= totalPages; i++) {
+                if (settings.headerFooterSkipFirst && i === 1) continue;
+                doc.setPage(i);
+                footerY = doc.internal.pageSize.getHeight() - Math.max(marginBottom - 5, 4);
+                pageRight = doc.internal.pageSize.getWidth() - marginRight;
+                doc.setTextColor(textColor[0], textColor[1], textColor[2]);
+                doc.setDrawColor(textColor[0], textColor[1], textColor[2]);
+                doc.setLineWidth(0.2);
+                doc.setFont(activeFont, "normal"); // Ensure font is reset
+                doc.setFontSize(9);
+
+                const noteStart = noteStarts.filter(start => start.page <= i).pop() || noteStarts[0];
+                // Even pages swap the left and right slots so they sit on the outer edge when printed as a book
+                const mirrored = settings.headerFooterMirror && i % 2 === 0;
+                const drawSlots = (slots: string[], baseline: number) => {
+                    drawSlot(mirrored ? slots[2] : slots[0], 'left', baseline, i, noteStart);
+                    drawSlot(slots[1], 'center', baseline, i, noteStart);
+                    drawSlot(mirrored ? slots[0] : slots[2], 'right', baseline, i, noteStart);
+                };
+
+                if (hasHeader) {
+                    drawSlots(i % 2 === 0 ? evenHeaderSlots : headerSlots, headerY);
+                    if (settings.headerFooterSeparator) doc.line(marginLeft, headerY + 2.5, pageRight, headerY + 2.5);
+                }
+                if (hasFooter) {
+                    drawSlots(i % 2 === 0 ? evenFooterSlots : footerSlots, footerY);
+                    if (settings.headerFooterSeparator) doc.line(marginLeft, footerY - 4.5, pageRight, footerY - 4.5);
+                }
             }
         }
 
+        fontFallback.missing.forEach(char => this.missingGlyphs.add(char));
+        this.setDocumentProperties(doc, notes, settings, isMerged ? documentTitle : undefined);
+        if (preview) {
+            preview.pageHashes = pageContentHashes(doc);
+            preview.sourceLines = layout.sourceLines.filter(position => position.note === 0);
+        }
         return doc.output("arraybuffer");
     }
 
-    async exportToPdf() {
+    /**
+     * Registers a .ttf file from the vault as one style of a font family. Returns false if it can't be loaded.
+     */
+    private async addTtfFont(doc: jsPDF, path: string, family: string, style: string): Promise<boolean> {
+        const fontFile = this.app.vault.getAbstractFileByPath(normalizePath(path));
+        if (!(fontFile instanceof TFile) || fontFile.extension !== 'ttf') {
+            new Notice("Font file not found at: " + path);
+            return false;
+        }
+        try {
+            if (!doc.existsFileInVFS(fontFile.path)) doc.addFileToVFS(fontFile.path, this.arrayBufferToBase64(await this.app.vault.readBinary(fontFile)));
+            doc.addFont(fontFile.path, family, style, 'Identity-H');
+            return true;
+        } catch (e) {
+            console.error("Error loading font:", e);
+            new Notice("Error loading font " + path + ": " + e);
+            return false;
+        }
+    }
+
+    /**
+     * Fills in the PDF's title, author, subject, keywords and language from the frontmatter (`title`, `author`,
+     * `subject` or `description`, the tags and `lang`), falling back to the note name and the settings.
+     */
+    private setDocumentProperties(doc: jsPDF, notes: TFile[], settings: PdfPluginSettings, documentTitle?: string) {
+        const frontmatter = this.getFrontmatter(notes[0]);
+        const text = (value: any) => Array.isArray(value) ? value.join(', ') : (typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '');
+        const tags = new Set<string>();
+        for (const note of notes) {
+            const cache = this.app.metadataCache.getFileCache(note);
+            for (const tag of (cache && getAllTags(cache)) || []) tags.add(tag.replace(/^#/, ''));
+        }
+        doc.setDocumentProperties({
+            title: documentTitle || text(frontmatter['title']) || this.getNoteTitle(notes[0]),
+            author: text(frontmatter['author']) || text(frontmatter['authors']) || settings.documentAuthor.trim(),
+            subject: documentTitle ? '' : text(frontmatter['subject']) || text(frontmatter['description']),
+            keywords: Array.from(tags).join(', '),
+            creator: `Obsidian ${this.manifest.name}`
+        });
+
+        // "de-DE" or "de"; jsPDF ignores tags it doesn't know, so a region it lacks falls back to the language
+        const language = (text(frontmatter['lang']) || text(frontmatter['language']) || settings.documentLanguage.trim() || moment.locale())
+            .replace(/_/g, '-').replace(/-(\w+)$/, (match, region) => `-${region.toUpperCase()}`);
+        const api = doc as any;
+        api.setLanguage(language);
+        if (!api.internal.languageSettings.languageCode) api.setLanguage(language.split('-')[0].toLowerCase());
+    }
+
+    /**
+     * Names the pdf-preset values the last exports couldn't find, and lists the characters they couldn't show
+     * so a fallback font can be added for them.
+     */
+    private reportExportWarnings() {
+        if (this.missingPresets.size > 0) {
+            const names = Array.from(this.missingPresets).map(name => `"${name}"`).join(', ');
+            new Notice(`No preset named ${names}; the note${this.missingPresets.size === 1 ? '' : 's'} used the current settings instead.`, 10000);
+            this.missingPresets.clear();
+        }
+        if (this.missingGlyphs.size === 0) return;
+        const sample = Array.from(this.missingGlyphs).slice(0, 20).join(' ');
+        new Notice(`No font has these characters, so they may not show in the PDF: ${sample}${this.missingGlyphs.size > 20 ? ' ...' : ''}\nAdd a fallback font that covers them in the settings.`, 10000);
+        this.missingGlyphs.clear();
+    }
+
+    async exportToPdf(target: ExportTarget = this.settings.exportTarget) {
         const file = this.app.workspace.getActiveFile();
         if (!file || file.extension !== 'md') {
             new Notice('Please open a Markdown note to export.');
             return;
         }
+        if (this.isExcluded(file)) {
+            new Notice('This note is excluded from PDF export (pdf-exclude).');
+            return;
+        }
         new Notice('Generating PDF...');
+        this.missingGlyphs.clear();
+        this.missingPresets.clear();
         try {
             const pdfOutput = await this.generatePdfData(file); if (!pdfOutput) return;
-            
-            let folderPath = file.parent ? file.parent.path : "";
-            if (this.settings.defaultExportPath && this.settings.defaultExportPath.trim() !== '') {
-                folderPath = this.settings.defaultExportPath.trim();
-                if (folderPath.endsWith('/')) folderPath = folderPath.slice(0, -1);
-                if (folderPath.startsWith('/')) folderPath = folderPath.slice(1);
-
-                if (folderPath !== "") {
-                    const exists = await this.app.vault.adapter.exists(folderPath);
-                    if (!exists) {
-                        try {
-                            await this.app.vault.createFolder(folderPath);
-                        } catch (e) {
-                             console.error("Error creating export folder:", e);
-                        }
+            if (target !== 'vault') {
+                await this.sendPdfs([{ name: file.basename, data: pdfOutput }], target);
+                this.reportExportWarnings();
+                return;
+            }
+            const pdfPath = await this.writePdf(await this.getExportFolder(file.parent ? file.parent.path : ""), file.basename, pdfOutput);
+            new Notice(`Saved to ${pdfPath} (${formatBytes(pdfOutput.byteLength)})`);
+            this.reportExportWarnings();
+            await this.openPdf(pdfPath);
+        } catch (e) { new Notice('Error saving PDF: ' + e); }
+    }
+
+    /**
+     * Exports several notes, as one PDF per note or merged into a single PDF named after the folder or tag.
+     */
+    async exportBatch(files: TFile[], sourceName: string, sourceFolder: string, target: ExportTarget = this.settings.exportTarget) {
+        const notes = this.sortNotes(files.filter(f => f.extension === 'md' && !this.isExcluded(f)));
+        if (notes.length === 0) {
+            new Notice('No Markdown notes to export.');
+            return;
+        }
+
+        const progress = new ExportProgressNotice();
+        this.missingGlyphs.clear();
+        this.missingPresets.clear();
+        try {
+            if (this.settings.batchMode === 'merged') {
+                const pdfOutput = await this.generatePdfData(notes, false, progress, sourceName);
+                if (!pdfOutput) { new Notice('Export cancelled.'); return; }
+                if (target !== 'vault') {
+                    progress.hide();
+                    await this.sendPdfs([{ name: sourceName, data: pdfOutput }], target);
+                    this.reportExportWarnings();
+                    return;
+                }
+                const pdfPath = await this.writePdf(await this.getExportFolder(sourceFolder), sourceName, pdfOutput);
+                new Notice(`Saved to ${pdfPath} (${formatBytes(pdfOutput.byteLength)})`);
+                this.reportExportWarnings();
+                await this.openPdf(pdfPath);
+            } else {
+                let exported = 0, totalBytes = 0;
+                // Shared and downloaded PDFs are sent together at the end
+                const outputs: { name: string, data: ArrayBuffer }[] = [];
+                for (const note of notes) {
+                    if (progress.cancelled) break;
+                    progress.update(exported, notes.length, note);
+                    const pdfOutput = await this.generatePdfData(note); if (!pdfOutput) continue;
+                    if (target === 'vault') await this.writePdf(await this.getExportFolder(note.parent ? note.parent.path : ""), note.basename, pdfOutput);
+                    else outputs.push({ name: note.basename, data: pdfOutput });
+                    exported++;
+                    totalBytes += pdfOutput.byteLength;
+                }
+                if (progress.cancelled) new Notice(`Export cancelled after ${exported} of ${notes.length} notes.`);
+                else if (target !== 'vault') { progress.hide(); await this.sendPdfs(outputs, target); }
+                else new Notice(`Exported ${exported} PDF${exported === 1 ? '' : 's'} (${formatBytes(totalBytes)}).`);
+                this.reportExportWarnings();
+            }
+        } catch (e) {
+            new Notice('Error saving PDF: ' + e);
+        } finally {
+            progress.hide();
+        }
+    }
+
+    /**
+     * Lists every folder and tag in the vault as a batch export source. Nested tags also count for their parents.
+     */
+    getBatchSources(): BatchSource[] {
+        const sources: BatchSource[] = [];
+        for (const folder of this.app.vault.getAllLoadedFiles()) {
+            if (folder instanceof TFolder) sources.push(this.getFolderSource(folder));
+        }
+
+        const taggedNotes: Record<string, TFile[]> = {};
+        for (const note of this.app.vault.getMarkdownFiles()) {
+            const cache = this.app.metadataCache.getFileCache(note);
+            const noteTags = new Set<string>();
+            for (const tag of (cache && getAllTags(cache)) || []) {
+                const segments = tag.split('/');
+                for (let i = 1; i <= segments.length; i++) noteTags.add(segments.slice(0, i).join('/'));
+            }
+            noteTags.forEach(tag => (taggedNotes[tag] = taggedNotes[tag] || []).push(note));
+        }
+        for (const [tag, files] of Object.entries(taggedNotes)) {
+            sources.push({ label: tag, name: tag.substring(1).replace(/\//g, '-'), folder: '', files });
+        }
+        return sources;
+    }
+
+    getFolderSource(folder: TFolder): BatchSource {
+        const files: TFile[] = [];
+        Vault.recurseChildren(folder, f => { if (f instanceof TFile && f.extension === 'md') files.push(f); });
+        const name = folder.isRoot() ? this.app.vault.getName() : folder.name;
+        return { label: folder.isRoot() ? '/' : folder.path, name, folder: folder.path, files };
+    }
+
+    /**
+     * Orders notes for a batch export by name, creation date or a frontmatter field (notes without it go last).
+     */
+    private sortNotes(notes: TFile[]): TFile[] {
+        const field = this.settings.batchSortField.trim();
+        const fieldValue = (note: TFile) => {
+            const cache = this.app.metadataCache.getFileCache(note);
+            return cache && cache.frontmatter ? cache.frontmatter[field] : undefined;
+        };
+        const byName = (a: TFile, b: TFile) => a.basename.localeCompare(b.basename, undefined, { numeric: true }) || a.path.localeCompare(b.path);
+
+        return [...notes].sort((a, b) => {
+            if (this.settings.batchSortOrder === 'created') return (a.stat.ctime - b.stat.ctime) || byName(a, b);
+            if (this.settings.batchSortOrder === 'frontmatter' && field) {
+                const valueA = fieldValue(a), valueB = fieldValue(b);
+                if (valueA == null && valueB != null) return 1;
+                if (valueA != null && valueB == null) return -1;
+                if (valueA != null && valueB != null && valueA !== valueB) {
+                    if (typeof valueA === 'number' && typeof valueB === 'number') return valueA - valueB;
+                    return String(valueA).localeCompare(String(valueB), undefined, { numeric: true });
+                }
+            }
+            return byName(a, b);
+        });
+    }
+
+    /**
+     * Returns the folder PDFs are saved to: the configured export path (created if missing) or the given folder.
+     */
+    private async getExportFolder(defaultFolder: string): Promise<string> {
+        let folderPath = defaultFolder === "/" ? "" : defaultFolder;
+        if (this.settings.defaultExportPath && this.settings.defaultExportPath.trim() !== '') {
+            folderPath = this.settings.defaultExportPath.trim();
+            if (folderPath.endsWith('/')) folderPath = folderPath.slice(0, -1);
+            if (folderPath.startsWith('/')) folderPath = folderPath.slice(1);
+
+            if (folderPath !== "") {
+                const exists = await this.app.vault.adapter.exists(folderPath);
+                if (!exists) {
+                    try {
+                        await this.app.vault.createFolder(folderPath);
+                    } catch (e) {
+                         console.error("Error creating export folder:", e);
                     }
                 }
             }
-            
-            const pdfPath = (folderPath === "" ? "" : folderPath + "/") + file.basename + ".pdf";
-            await this.app.vault.adapter.writeBinary(pdfPath, pdfOutput);
-            new Notice(`Saved to ${pdfPath}`);
-            await new Promise(r => setTimeout(r, 500));
-            const pdfTFile = this.app.vault.getAbstractFileByPath(pdfPath);
-            if (pdfTFile) await this.app.workspace.getLeaf(true).openFile(pdfTFile as any);
-        } catch (e) { new Notice('Error saving PDF: ' + e); }
+        }
+        return folderPath;
+    }
+
+    private async writePdf(folderPath: string, name: string, pdfOutput: ArrayBuffer): Promise<string> {
+        const pdfPath = (folderPath === "" ? "" : folderPath + "/") + name + ".pdf";
+        await this.app.vault.adapter.writeBinary(pdfPath, pdfOutput);
+        return pdfPath;
+    }
+
+    /**
+     * Sends PDFs somewhere outside the vault. Devices that can't share files download them instead.
+     * Temporary PDFs are written to the plugin's folder, shared from there and deleted once the share sheet closes.
+     */
+    private async sendPdfs(pdfs: { name: string, data: ArrayBuffer }[], target: 'share' | 'download' | 'temporary') {
+        if (pdfs.length === 0) return;
+        const size = formatBytes(pdfs.reduce((sum, pdf) => sum + pdf.data.byteLength, 0));
+        const label = pdfs.length === 1 ? `${pdfs[0].name}.pdf` : `${pdfs.length} PDFs`;
+        const download = () => {
+            for (const pdf of pdfs) this.downloadPdf(pdf.name, pdf.data);
+            new Notice(`Downloaded ${label} (${size})`);
+        };
+        if (target === 'download') { download(); return; }
+
+        const adapter = this.app.vault.adapter;
+        const tempPaths: string[] = [];
+        try {
+            let files: File[];
+            if (target === 'temporary') {
+                const tempFolder = normalizePath(`${this.manifest.dir}/temp`);
+                if (!(await adapter.exists(tempFolder))) await adapter.mkdir(tempFolder);
+                files = [];
+                for (const pdf of pdfs) {
+                    const path = `${tempFolder}/${pdf.name}.pdf`;
+                    await adapter.writeBinary(path, pdf.data);
+                    tempPaths.push(path);
+                    // What is shared is the file as written
+                    files.push(new File([await adapter.readBinary(path)], `${pdf.name}.pdf`, { type: 'application/pdf' }));
+                }
+            } else {
+                files = pdfs.map(pdf => new File([pdf.data], `${pdf.name}.pdf`, { type: 'application/pdf' }));
+            }
+            if (!(await this.sharePdfs(files))) {
+                new Notice("This device can't share files, so the PDF is downloaded instead.");
+                download();
+            }
+        } finally {
+            for (const path of tempPaths) {
+                try { await adapter.remove(path); } catch (e) { console.error("Error removing temporary PDF:", e); }
+            }
+        }
     }
+
+    /**
+     * Opens the system share sheet with the files; false if the device can't share files. Sharing has to follow
+     * a tap, which a long export outlasts, so a notice with a Share button asks for another one when needed.
+     * Resolves once the share sheet or the notice is closed.
+     */
+    private async sharePdfs(files: File[]): Promise<boolean> {
+        if (typeof navigator.canShare !== 'function' || !navigator.canShare({ files })) return false;
+        // Closing the share sheet without picking an app is not an error
+        const share = () => navigator.share({ files }).catch(e => { if (!(e instanceof DOMException && e.name === 'AbortError')) throw e; });
+        try {
+            await share();
+        } catch (e) {
+            if (!(e instanceof DOMException && e.name === 'NotAllowedError')) throw e;
+            await new Promise<void>((resolve, reject) => {
+                const fragment = document.createDocumentFragment();
+                fragment.createDiv({ text: files.length === 1 ? `${files[0].name} is ready.` : `${files.length} PDFs are ready.` });
+                const button = fragment.createEl('button', { text: 'Share' });
+                button.style.marginTop = '6px';
+                const notice = new Notice(fragment, 0);
+                // Clicking a notice dismisses it
+                notice.noticeEl.addEventListener('click', (event) => {
+                    if (event.target === button) share().then(resolve, reject);
+                    else resolve();
+                });
+            });
+        }
+        return true;
+    }
+
+    /**
+     * Saves a PDF through the browser's download, outside the vault.
+     */
+    private downloadPdf(name: string, data: ArrayBuffer) {
+        const url = URL.createObjectURL(new Blob([data], { type: 'application/pdf' }));
+        const link = document.body.createEl('a', { href: url, attr: { download: `${name}.pdf` } });
+        link.click();
+        link.remove();
+        // Revoking the URL right away can cancel the download
+        window.setTimeout(() => URL.revokeObjectURL(url), 60000);
+    }
+
+    private async openPdf(pdfPath: string) {
+        await new Promise(r => setTimeout(r, 500));
+        const pdfTFile = this.app.vault.getAbstractFileByPath(pdfPath);
+        if (pdfTFile) await this.app.workspace.getLeaf(true).openFile(pdfTFile as any);
+    }
+}
+
+/**
+ * Persistent notice showing the progress of a batch export, with a button to cancel it between notes.
+ */
+class ExportProgressNotice implements ExportProgress {
+    cancelled = false;
+    private notice: Notice;
+
+    constructor() { this.notice = new Notice(this.createMessage('Preparing export...'), 0); }
+
+    update(done: number, total: number, file: TFile) {
+        this.notice.setMessage(this.createMessage(`Exporting ${done + 1} / ${total}: ${file.basename}`));
+    }
+
+    hide() { this.notice.hide(); }
+
+    private createMessage(text: string): DocumentFragment {
+        const fragment = document.createDocumentFragment();
+        fragment.createDiv({ text });
+        const button = fragment.createEl('button', { text: this.cancelled ? 'Cancelling...' : 'Cancel' });
+        button.style.marginTop = '6px';
+        button.addEventListener('click', (e) => {
+            e.stopPropagation(); // Clicking a notice would dismiss it
+            this.cancelled = true;
+            button.setText('Cancelling...');
+        });
+        return fragment;
+    }
+}
+
+/**
+ * Picks the folder or tag to export with the "Export folder or tag to PDF" command.
+ */
+class BatchSourceModal extends FuzzySuggestModal<BatchSource> {
+    plugin: PdfPlugin;
+
+    constructor(app: App, plugin: PdfPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.setPlaceholder('Choose a folder or tag to export');
+    }
+
+    getItems(): BatchSource[] { return this.plugin.getBatchSources(); }
+    getItemText(source: BatchSource): string { return `${source.label} (${source.files.length})`; }
+    onChooseItem(source: BatchSource) { new BatchExportModal(this.app, this.plugin, source).open(); }
+}
+
+/**
+ * Batch export options (mode and ordering), remembered in the plugin settings.
+ */
+class BatchExportModal extends Modal {
+    plugin: PdfPlugin;
+    source: BatchSource;
+
+    constructor(app: App, plugin: PdfPlugin, source: BatchSource) {
+        super(app);
+        this.plugin = plugin;
+        this.source = source;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: `Export ${this.source.label} to PDF` });
+        contentEl.createEl('div', { text: `${this.source.files.length} note${this.source.files.length === 1 ? '' : 's'}`, cls: 'setting-item-description' });
+
+        new Setting(contentEl).setName('Mode').addDropdown(d => {
+            d.addOption('separate', 'One PDF per note')
+             .addOption('merged', 'Single merged PDF')
+             .setValue(this.plugin.settings.batchMode)
+             .onChange(async v => {
+                 this.plugin.settings.batchMode = v as any;
+                 await this.plugin.saveSettings();
+             });
+        });
+
+        new Setting(contentEl).setName('Order').setDesc('Order of the notes in the merged PDF and during export').addDropdown(d => {
+            d.addOption('name', 'Name')
+             .addOption('created', 'Created date')
+             .addOption('frontmatter', 'Frontmatter field')
+             .setValue(this.plugin.settings.batchSortOrder)
+             .onChange(async v => {
+                 this.plugin.settings.batchSortOrder = v as any;
+                 await this.plugin.saveSettings();
+                 this.onOpen(); // Show/hide the field name
+             });
+        });
+
+        if (this.plugin.settings.batchSortOrder === 'frontmatter') {
+            new Setting(contentEl).setName('Frontmatter Field').setDesc('Notes without this field are exported last').addText(t => {
+                t.setPlaceholder('e.g. order')
+                 .setValue(this.plugin.settings.batchSortField)
+                 .onChange(async v => {
+                     this.plugin.settings.batchSortField = v;
+                     await this.plugin.saveSettings();
+                 });
+            });
+        }
+
+        new Setting(contentEl).addButton(b => b.setButtonText('Export').setCta().onClick(() => {
+            this.close();
+            this.plugin.exportBatch(this.source.files, this.source.name, this.source.folder);
+        }));
+    }
+
+    onClose() { this.contentEl.empty(); }
 }
 
 class PdfSidebarView extends ItemView {
     plugin: PdfPlugin; previewContainer: HTMLElement; zoomWrapper: HTMLElement; debounceTimer: any;
     private lastDist = 0; private zoomLevel = 1.0;
     private pageBreakArea: any;
+    private exportTargetDropdown: DropdownComponent | null = null;
+    // Counts preview runs; a run stops once a newer one has started
+    private previewGeneration = 0;
+    private previewStatus: HTMLElement;
+    private previewPdf: any = null;
+    private pageObserver: IntersectionObserver | null = null;
+    // Drawn pages of the current preview by content hash, reused by the next preview
+    private renderedPages = new Map<string, HTMLCanvasElement>();
+    // The previewed note, where its lines are and each page's element with its height in mm
+    private previewFile: TFile | null = null;
+    private sourceLines: SourcePosition[] = [];
+    private pageSlots: { el: HTMLElement, height: number }[] = [];
+    private cursorTimer = 0;
+    // When a long press last opened the page menu; the tap that ends it is not a tap on the page
+    private longPressTime = 0;
 
     constructor(leaf: WorkspaceLeaf, plugin: PdfPlugin) { super(leaf); this.plugin = plugin; }
     getViewType() { return PDF_SIDEBAR_VIEW; }
@@ -837,9 +1962,31 @@ class PdfSidebarView extends ItemView {
         await this.display();
     }
 
+    async onClose() {
+        this.previewGeneration++;
+        window.clearTimeout(this.cursorTimer);
+        if (this.pageObserver) this.pageObserver.disconnect();
+        if (this.previewPdf) this.previewPdf.destroy();
+        this.renderedPages.clear();
+    }
+
     async display() {
         const container = this.contentEl; container.empty();
         
+        new Setting(container).setName("Preset").setDesc("Load saved export settings (manage presets in the plugin settings)").addDropdown(d => {
+            d.addOption("", "None");
+            for (const preset of this.plugin.settings.presets) d.addOption(preset.name, preset.name);
+            d.setValue(this.plugin.settings.activePreset)
+             .onChange(async v => {
+                 if (v) await this.plugin.applyPreset(v);
+                 else { this.plugin.settings.activePreset = ''; await this.plugin.saveSettings(); }
+                 this.display(); // Reload every field from the preset
+             });
+        }).addExtraButton(b => b.setIcon("save").setTooltip("Save the current settings to this preset").onClick(async () => {
+            if (this.plugin.settings.activePreset) await this.plugin.updatePreset(this.plugin.settings.activePreset);
+            else new Notice("Select a preset first");
+        }));
+
         new Setting(container).setName("Font Family").setDesc("Choose a font (built-in or custom .ttf)").addDropdown(d => {
             d.addOption("helvetica", "Helvetica (Sans-serif)")
              .addOption("times", "Times (Serif)")
@@ -866,8 +2013,36 @@ class PdfSidebarView extends ItemView {
                      this.triggerPreview();
                  });
             });
+
+            // Styles left empty use the regular file
+            const styles: [string, 'customFontBoldPath' | 'customFontItalicPath' | 'customFontBoldItalicPath'][] = [
+                ["Bold Font Path", 'customFontBoldPath'],
+                ["Italic Font Path", 'customFontItalicPath'],
+                ["Bold Italic Font Path", 'customFontBoldItalicPath']
+            ];
+            styles.forEach(([name, key]) => {
+                new Setting(container).setName(name).setDesc("Optional .ttf for this style; the regular file is used if empty").addText(t => {
+                    t.setPlaceholder("e.g. MyFont-Bold.ttf")
+                     .setValue(this.plugin.settings[key])
+                     .onChange(async v => {
+                         this.plugin.settings[key] = v;
+                         await this.plugin.saveSettings();
+                         this.triggerPreview();
+                     });
+                });
+            });
         }
 
+        new Setting(container).setName("Fallback Fonts").setDesc("One .ttf path per line, tried in order for characters the main font lacks (CJK, Arabic, Hebrew, symbols). Emoji are drawn as images").addTextArea(t => {
+            t.inputEl.style.width = '100%';
+            t.inputEl.rows = 2;
+            t.setPlaceholder("e.g. Fonts/NotoSansCJK.ttf").setValue(this.plugin.settings.fallbackFonts).onChange(async v => {
+                this.plugin.settings.fallbackFonts = v;
+                await this.plugin.saveSettings();
+                this.triggerPreview();
+            });
+        });
+
         new Setting(container).setName("Page Theme").setDesc("Light, Dark, or match Obsidian CSS (Requires 'Apply CSS Snippets' to be ON)").addDropdown(d => {
             d.addOption("light", "Light")
              .addOption("dark", "Dark")
@@ -897,28 +2072,188 @@ class PdfSidebarView extends ItemView {
 
         new Setting(container).setName("Show Note Title").setDesc("Include the note title at the top of the PDF").addToggle(t => t.setValue(this.plugin.settings.showTitle).onChange(async v => { this.plugin.settings.showTitle = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
 
-        new Setting(container).setName("Show Footnote").setDesc("Include a footnote on every page").addToggle(t => t.setValue(this.plugin.settings.showFootnote).onChange(async v => { 
-            this.plugin.settings.showFootnote = v; 
+        new Setting(container).setName("PDF Bookmarks").setDesc("Add an outline of the headings for navigation in PDF readers").addToggle(t => t.setValue(this.plugin.settings.showOutline).onChange(async v => { this.plugin.settings.showOutline = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
+
+        new Setting(container).setName("Table of Contents").setDesc("Add a page listing the headings with clickable page numbers after the title").addToggle(t => t.setValue(this.plugin.settings.showToc).onChange(async v => { this.plugin.settings.showToc = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
+
+        new Setting(container).setName("Markdown Footnotes").setDesc("Where the text of [^1] footnotes is printed").addDropdown(d => {
+            d.addOption("page", "Bottom of the page")
+             .addOption("end", "Endnotes")
+             .setValue(this.plugin.settings.footnotePlacement)
+             .onChange(async v => {
+                 this.plugin.settings.footnotePlacement = v as any;
+                 await this.plugin.saveSettings();
+                 this.triggerPreview();
+             });
+        });
+
+        new Setting(container).setName("Wide Tables").setDesc("What to do with tables too wide for the page").addDropdown(d => {
+            d.addOption("wrap", "Wrap cells")
+             .addOption("shrink", "Shrink to fit")
+             .addOption("landscape", "Landscape pages")
+             .setValue(this.plugin.settings.wideTables)
+             .onChange(async v => {
+                 this.plugin.settings.wideTables = v as any;
+                 await this.plugin.saveSettings();
+                 this.triggerPreview();
+             });
+        });
+
+        new Setting(container).setName("Document Info").setDesc("List the note's properties (frontmatter) at the end of the PDF").addToggle(t => t.setValue(this.plugin.settings.showDocumentInfo).onChange(async v => {
+            this.plugin.settings.showDocumentInfo = v;
+            await this.plugin.saveSettings();
+            this.display();
+            this.triggerPreview();
+        }));
+
+        if (this.plugin.settings.showDocumentInfo) {
+            new Setting(container).setName("Info Fields").setDesc("Comma separated properties to list, in order. Leave empty for all of them").addText(t => {
+                t.setPlaceholder("e.g. author, created, status")
+                 .setValue(this.plugin.settings.documentInfoFields)
+                 .onChange(async v => {
+                     this.plugin.settings.documentInfoFields = v;
+                     await this.plugin.saveSettings();
+                     this.triggerPreview();
+                 });
+            });
+        }
+
+        new Setting(container).setName("Show Header").setDesc("Include a header on every page").addToggle(t => t.setValue(this.plugin.settings.showHeader).onChange(async v => { 
+            this.plugin.settings.showHeader = v; 
             await this.plugin.saveSettings(); 
-            this.display(); // Force refresh to show/hide the template field
+            this.display(); // Force refresh to show/hide the slot fields
             this.triggerPreview(); 
         }));
+        if (this.plugin.settings.showHeader) {
+            this.addSlotSetting(container, "Header Left", 'headerLeft');
+            this.addSlotSetting(container, "Header Center", 'headerCenter');
+            this.addSlotSetting(container, "Header Right", 'headerRight');
+        }
 
+        new Setting(container).setName("Show Footer").setDesc("Include a footer on every page").addToggle(t => t.setValue(this.plugin.settings.showFootnote).onChange(async v => { 
+            this.plugin.settings.showFootnote = v; 
+            await this.plugin.saveSettings(); 
+            this.display(); // Force refresh to show/hide the slot fields
+            this.triggerPreview(); 
+        }));
         if (this.plugin.settings.showFootnote) {
-            new Setting(container).setName("Footnote Template").setDesc("Variables: {date}, {time}, {title}, {page}, {total}").addText(t => {
-                t.setValue(this.plugin.settings.footnoteTemplate)
+            this.addSlotSetting(container, "Footer Left", 'footnoteTemplate');
+            this.addSlotSetting(container, "Footer Center", 'footerCenter');
+            this.addSlotSetting(container, "Footer Right", 'footerRight');
+        }
+
+        if (this.plugin.settings.showHeader || this.plugin.settings.showFootnote) {
+            new Setting(container).setName("Logo").setDesc("Vault path of an image, shown where a slot contains {logo}").addText(t => {
+                t.setPlaceholder("assets/logo.png").setValue(this.plugin.settings.headerFooterLogo)
                  .onChange(async v => {
-                     this.plugin.settings.footnoteTemplate = v;
+                     this.plugin.settings.headerFooterLogo = v.trim();
                      await this.plugin.saveSettings();
                      this.triggerPreview();
                  });
             });
+            new Setting(container).setName("Skip First Page").setDesc("No header or footer on the first page").addToggle(t => t.setValue(this.plugin.settings.headerFooterSkipFirst).onChange(async v => { this.plugin.settings.headerFooterSkipFirst = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
+            new Setting(container).setName("Mirror Even Pages").setDesc("Swap the left and right slots on even pages, for double-sided printing").addToggle(t => t.setValue(this.plugin.settings.headerFooterMirror).onChange(async v => { this.plugin.settings.headerFooterMirror = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
+            new Setting(container).setName("Different Even Pages").setDesc("Give even pages their own header and footer").addToggle(t => t.setValue(this.plugin.settings.headerFooterDifferentEven).onChange(async v => {
+                this.plugin.settings.headerFooterDifferentEven = v;
+                await this.plugin.saveSettings();
+                this.display(); // Force refresh to show/hide the even page slot fields
+                this.triggerPreview();
+            }));
+            if (this.plugin.settings.headerFooterDifferentEven) {
+                if (this.plugin.settings.showHeader) {
+                    this.addSlotSetting(container, "Even Header Left", 'evenHeaderLeft');
+                    this.addSlotSetting(container, "Even Header Center", 'evenHeaderCenter');
+                    this.addSlotSetting(container, "Even Header Right", 'evenHeaderRight');
+                }
+                if (this.plugin.settings.showFootnote) {
+                    this.addSlotSetting(container, "Even Footer Left", 'evenFooterLeft');
+                    this.addSlotSetting(container, "Even Footer Center", 'evenFooterCenter');
+                    this.addSlotSetting(container, "Even Footer Right", 'evenFooterRight');
+                }
+            }
+            new Setting(container).setName("Separator Line").setDesc("Draw a line between the header or footer and the content").addToggle(t => t.setValue(this.plugin.settings.headerFooterSeparator).onChange(async v => { this.plugin.settings.headerFooterSeparator = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
         }
 
+        new Setting(container).setName("Page Size").setDesc("Paper format of the exported PDF").addDropdown(d => {
+            d.addOption("a3", "A3")
+             .addOption("a4", "A4")
+             .addOption("a5", "A5")
+             .addOption("letter", "US Letter")
+             .addOption("legal", "US Legal")
+             .addOption("custom", "Custom (mm)")
+             .setValue(this.plugin.settings.pageFormat)
+             .onChange(async v => {
+                 this.plugin.settings.pageFormat = v as any;
+                 await this.plugin.saveSettings();
+                 this.display(); // Force refresh to show/hide the custom size fields
+                 this.triggerPreview();
+             });
+        });
+
+        if (this.plugin.settings.pageFormat === 'custom') {
+            new Setting(container).setName("Custom Size (mm)").setDesc("Width and height of the page").addText(t => {
+                t.inputEl.type = 'number'; t.inputEl.style.width = '70px';
+                t.setPlaceholder("Width").setValue(String(this.plugin.settings.customPageWidth)).onChange(async v => {
+                    const n = parseFloat(v);
+                    if (isNaN(n) || n <= 0) return;
+                    this.plugin.settings.customPageWidth = n;
+                    await this.plugin.saveSettings();
+                    this.triggerPreview();
+                });
+            }).addText(t => {
+                t.inputEl.type = 'number'; t.inputEl.style.width = '70px';
+                t.setPlaceholder("Height").setValue(String(this.plugin.settings.customPageHeight)).onChange(async v => {
+                    const n = parseFloat(v);
+                    if (isNaN(n) || n <= 0) return;
+                    this.plugin.settings.customPageHeight = n;
+                    await this.plugin.saveSettings();
+                    this.triggerPreview();
+                });
+            });
+        }
+
+        new Setting(container).setName("Orientation").addDropdown(d => {
+            d.addOption("portrait", "Portrait")
+             .addOption("landscape", "Landscape")
+             .setValue(this.plugin.settings.pageOrientation)
+             .onChange(async v => {
+                 this.plugin.settings.pageOrientation = v as any;
+                 await this.plugin.saveSettings();
+                 this.triggerPreview();
+             });
+        });
+
+        const marginSetting = new Setting(container).setName("Margins (mm)").setDesc("Top, right, bottom, left");
+        for (const key of ['marginTop', 'marginRight', 'marginBottom', 'marginLeft'] as const) {
+            marginSetting.addText(t => {
+                t.inputEl.type = 'number'; t.inputEl.style.width = '50px';
+                t.setValue(String(this.plugin.settings[key])).onChange(async v => {
+                    const n = parseFloat(v);
+                    if (isNaN(n) || n < 0) return;
+                    this.plugin.settings[key] = n;
+                    await this.plugin.saveSettings();
+                    this.triggerPreview();
+                });
+            });
+        }
+
+        new Setting(container).setName("Page Break Before Headings").setDesc("Start a new page at each top-level heading").addDropdown(d => {
+            d.addOption("none", "Never")
+             .addOption("h1", "Before H1")
+             .addOption("h2", "Before H1 and H2")
+             .setValue(this.plugin.settings.pageBreakBeforeHeading)
+             .onChange(async v => {
+                 this.plugin.settings.pageBreakBeforeHeading = v as any;
+                 await this.plugin.saveSettings();
+                 this.triggerPreview();
+             });
+        });
+
+        new Setting(container).setName("Keep Headings With Next Paragraph").setDesc("Move a heading to the next page instead of leaving it alone at the bottom").addToggle(t => t.setValue(this.plugin.settings.keepHeadingsWithNext).onChange(async v => { this.plugin.settings.keepHeadingsWithNext = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
 
         new Setting(container).setName("Show Line Numbers (Preview)").setDesc("Show line numbers in the sidebar preview").addToggle(t => t.setValue(this.plugin.settings.showLineNumbersInPreview).onChange(async v => { this.plugin.settings.showLineNumbersInPreview = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
 
-        new Setting(container).setName("Page Breaks").setDesc("Comma separated line numbers").addTextArea(t => {
+        new Setting(container).setName("Page Breaks").setDesc("Comma separated line numbers, or long-press a preview page to add one and drag its marker to move it. Breaks in the note's pdf-page-breaks frontmatter are always applied. Page break markers in the note (Insert page break command) don't move when you edit it").addTextArea(t => {
             this.pageBreakArea = t;
             t.inputEl.style.width = '100%';
             t.inputEl.rows = 2;
@@ -927,10 +2262,48 @@ class PdfSidebarView extends ItemView {
                 await this.plugin.saveSettings(); 
                 this.triggerPreview(); 
             });
+        }).addExtraButton(b => b.setIcon("save").setTooltip("Save these page breaks to the note's frontmatter").onClick(async () => {
+            const file = this.plugin.app.workspace.getActiveFile();
+            if (!file || file.extension !== 'md') return;
+            await this.plugin.savePageBreaksToNote(file);
+            this.refreshSettings();
+        }));
+
+        container.createDiv().style.borderTop = "1px solid var(--background-modifier-border)";
+        container.createEl("h3", { text: "File Size" }).style.marginTop = "15px";
+
+        new Setting(container).setName("Subset Fonts").setDesc("Embed only the font styles the note uses, for smaller files. Fonts always carry just the characters used.").addToggle(t => t.setValue(this.plugin.settings.subsetFonts).onChange(async v => { this.plugin.settings.subsetFonts = v; await this.plugin.saveSettings(); this.triggerPreview(); }));
+
+        new Setting(container).setName("Image Resolution").setDesc("Scale down images with more pixels than needed at their printed size").addDropdown(d => {
+            d.addOption("0", "Original")
+             .addOption("300", "300 DPI (print)")
+             .addOption("150", "150 DPI")
+             .addOption("96", "96 DPI (screen)")
+             .setValue(String(this.plugin.settings.imageDpi))
+             .onChange(async v => {
+                 this.plugin.settings.imageDpi = parseInt(v);
+                 await this.plugin.saveSettings();
+                 this.triggerPreview();
+             });
+        });
+
+        new Setting(container).setName("Image Compression").setDesc("Recompress images as JPEG; transparent areas get the background color").addDropdown(d => {
+            d.addOption("0", "Keep original format")
+             .addOption("90", "JPEG, high quality (90%)")
+             .addOption("75", "JPEG, medium quality (75%)")
+             .addOption("60", "JPEG, small (60%)")
+             .setValue(String(this.plugin.settings.jpegQuality))
+             .onChange(async v => {
+                 this.plugin.settings.jpegQuality = parseInt(v);
+                 await this.plugin.saveSettings();
+                 this.triggerPreview();
+             });
         });
 
         container.createDiv().style.borderTop = "1px solid var(--background-modifier-border)";
         container.createEl("h3", { text: "Preview" }).style.marginTop = "15px";
+        this.previewStatus = container.createEl("div", { cls: "setting-item-description pdf-preview-status" });
+        this.previewStatus.style.display = "none"; this.previewStatus.style.marginBottom = "5px";
         this.previewContainer = container.createEl("div", { cls: "pdf-preview-container" });
         this.previewContainer.style.width = "100%"; this.previewContainer.style.height = "500px"; this.previewContainer.style.overflow = "auto"; this.previewContainer.style.border = "1px solid var(--background-modifier-border)";
         this.zoomWrapper = this.previewContainer.createEl("div");
@@ -939,7 +2312,16 @@ class PdfSidebarView extends ItemView {
         container.createDiv().style.cssText = "border-top: 1px solid var(--background-modifier-border); margin-top: 15px;";
         
         // Generate PDF button moved below preview
-        new Setting(container).setName("Generate PDF").addButton(b => b.setButtonText("Generate").setCta().onClick(() => this.plugin.exportToPdf()));
+        // The destination applies to this export only; the default is in the plugin settings
+        new Setting(container).setName("Generate PDF").addDropdown(d => {
+            for (const [target, name] of Object.entries(EXPORT_TARGETS)) d.addOption(target, name);
+            d.setValue(this.plugin.settings.exportTarget);
+            this.exportTargetDropdown = d;
+        }).addButton(b => b.setButtonText("Generate").setCta().onClick(async () => {
+            const dropdown = this.exportTargetDropdown;
+            await this.plugin.exportToPdf(dropdown ? dropdown.getValue() as ExportTarget : this.plugin.settings.exportTarget);
+            if (dropdown) dropdown.setValue(this.plugin.settings.exportTarget);
+        }));
 
         this.previewContainer.addEventListener('touchstart', (e) => { if (e.touches.length === 2) this.lastDist = Math.hypot(e.touches[0].pageX - e.touches[1].pageX, e.touches[0].pageY - e.touches[1].pageY); }, { passive: false });
         this.previewContainer.addEventListener('touchmove', (e) => {
@@ -956,31 +2338,330 @@ class PdfSidebarView extends ItemView {
         this.triggerPreview();
     }
 
+    /**
+     * Text field for one header or footer slot.
+     */
+    private addSlotSetting(container: HTMLElement, name: string, key: 'headerLeft' | 'headerCenter' | 'headerRight' | 'footnoteTemplate' | 'footerCenter' | 'footerRight'
+        | 'evenHeaderLeft' | 'evenHeaderCenter' | 'evenHeaderRight' | 'evenFooterLeft' | 'evenFooterCenter' | 'evenFooterRight') {
+        new Setting(container).setName(name).setDesc("Variables: {date}, {date:FORMAT}, {time}, {title}, {page}, {total}, {fm:field}, {folder}, {vault}, {logo}").addText(t => {
+            t.setValue(this.plugin.settings[key])
+             .onChange(async v => {
+                 this.plugin.settings[key] = v;
+                 await this.plugin.saveSettings();
+                 this.triggerPreview();
+             });
+        });
+    }
+
     triggerPreview() { if (this.debounceTimer) clearTimeout(this.debounceTimer); this.debounceTimer = setTimeout(() => this.updatePreview(), 1500); }
     async updatePreview() {
+        const generation = ++this.previewGeneration;
+        const isCurrent = () => generation === this.previewGeneration;
         const file = this.plugin.app.workspace.getActiveFile();
-        this.zoomWrapper.empty(); this.zoomLevel = 1.0; this.zoomWrapper.style.width = "100%";
 
         if (!file || file.extension !== 'md') {
+            this.clearPreview(); this.renderedPages.clear(); this.setPreviewStatus("");
             this.zoomWrapper.createEl("div", { text: "Please open a Markdown note to export.", cls: "pdf-no-file" }).style.padding = "20px";
             return;
         }
 
-        const loading = this.zoomWrapper.createEl("div", { text: "Generating...", cls: "pdf-loading" });
+        // The previous pages stay until the new ones are ready
+        this.setPreviewStatus("Generating...");
         try {
-            const buffer = await this.plugin.generatePdfData(file, this.plugin.settings.showLineNumbersInPreview);
-            if (buffer) {
-                this.zoomWrapper.empty(); const pdfjsLib = await loadPdfJs(); const pdf = await pdfjsLib.getDocument({ data: buffer.slice(0) }).promise;
-                for (let i = 1; i <= pdf.numPages; i++) {
-                    const page = await pdf.getPage(i); const viewport = page.getViewport({ scale: 2.0 });
-                    const wrapper = this.zoomWrapper.createEl("div"); wrapper.style.textAlign = "center"; wrapper.style.backgroundColor = "var(--background-secondary)"; wrapper.style.padding = "5px";
-                    const canvas = wrapper.createEl("canvas"); const context = canvas.getContext('2d');
-                    canvas.height = viewport.height; canvas.width = viewport.width; canvas.style.width = "100%"; canvas.style.height = "auto"; canvas.style.boxShadow = "0 2px 5px rgba(0,0,0,0.2)";
-                    await page.render({ canvasContext: context, viewport: viewport }).promise;
-                    wrapper.createEl("div", { text: `Page ${i} / ${pdf.numPages}`, cls: "setting-item-description" }).style.fontSize = "10px";
+            const preview: PreviewInfo = { pageHashes: [], sourceLines: [], breakMarkerLines: [] };
+            const progress: ExportProgress = { get cancelled() { return !isCurrent(); }, update: () => { } };
+            const buffer = await this.plugin.generatePdfData(file, this.plugin.settings.showLineNumbersInPreview, progress, undefined, preview);
+            if (!buffer || !isCurrent()) return;
+            const pdfjsLib = await loadPdfJs(); const pdf = await pdfjsLib.getDocument({ data: buffer.slice(0) }).promise;
+            if (!isCurrent()) { pdf.destroy(); return; }
+            await this.showPages(pdf, file, preview, isCurrent);
+            if (isCurrent()) this.followCursor();
+        } catch (e) {
+            if (!isCurrent()) return;
+            this.clearPreview(); this.setPreviewStatus("");
+            this.zoomWrapper.createEl("div", { text: "Error: " + e });
+        }
+    }
+
+    /**
+     * Replaces the preview with the pages of a new PDF. Pages the previous preview drew with the same content
+     * are moved over; the others are drawn one at a time as they come near the visible area.
+     */
+    private async showPages(pdf: any, file: TFile, preview: PreviewInfo, isCurrent: () => boolean) {
+        const previous = this.renderedPages;
+        const pageHashes = preview.pageHashes;
+        this.renderedPages = new Map();
+        this.clearPreview();
+        this.previewPdf = pdf;
+        this.previewFile = file;
+        this.sourceLines = preview.sourceLines;
+
+        const slots: HTMLElement[] = [];
+        const queue: number[] = [];
+        let drawing = false;
+        const drawQueued = async () => {
+            if (drawing) return;
+            drawing = true;
+            while (queue.length > 0 && isCurrent()) {
+                const number = queue.shift() as number;
+                this.setPreviewStatus(`Rendering page ${number} of ${pdf.numPages}...`);
+                try {
+                    const canvas = await this.drawPage(pdf, number, slots[number - 1]);
+                    const hash = pageHashes[number - 1];
+                    if (isCurrent() && hash && !this.renderedPages.has(hash)) this.renderedPages.set(hash, canvas);
+                } catch (e) {
+                    if (isCurrent()) console.error("Preview render error:", e);
                 }
             }
-        } catch (e) { this.zoomWrapper.empty(); this.zoomWrapper.createEl("div", { text: "Error: " + e }); }
+            drawing = false;
+            if (isCurrent()) this.setPreviewStatus("");
+        };
+
+        const observer = new IntersectionObserver(entries => {
+            for (const entry of entries) {
+                if (!entry.isIntersecting) continue;
+                observer.unobserve(entry.target);
+                queue.push(slots.indexOf(entry.target as HTMLElement) + 1);
+            }
+            drawQueued();
+        }, { root: this.previewContainer, rootMargin: "50% 0px" });
+        this.pageObserver = observer;
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i); const viewport = page.getViewport({ scale: 1.0 });
+            if (!isCurrent()) return;
+            const wrapper = this.zoomWrapper.createEl("div"); wrapper.style.textAlign = "center"; wrapper.style.backgroundColor = "var(--background-secondary)"; wrapper.style.padding = "5px";
+            const slot = wrapper.createEl("div"); slot.style.width = "100%"; slot.style.aspectRatio = `${viewport.width} / ${viewport.height}`; slot.style.boxShadow = "0 2px 5px rgba(0,0,0,0.2)";
+            wrapper.createEl("div", { text: `Page ${i} / ${pdf.numPages}`, cls: "setting-item-description" }).style.fontSize = "10px";
+            slots.push(slot);
+            // PDF points to mm, the unit of the source line positions
+            const pageHeight = viewport.height * 25.4 / 72;
+            this.pageSlots.push({ el: slot, height: pageHeight });
+            slot.addEventListener('click', (e) => {
+                if (Date.now() - this.longPressTime < 800) return;
+                const rect = slot.getBoundingClientRect();
+                this.goToSource(i, (e.clientY - rect.top) / rect.height * pageHeight);
+            });
+            this.addLongPress(slot);
+
+            const hash = pageHashes[i - 1];
+            const canvas = hash ? previous.get(hash) : undefined;
+            if (canvas && !this.renderedPages.has(hash)) {
+                previous.delete(hash);
+                this.renderedPages.set(hash, canvas);
+                slot.appendChild(canvas);
+            } else {
+                observer.observe(slot);
+            }
+        }
+        this.addBreakMarkers(file, preview.breakMarkerLines);
+    }
+
+    /**
+     * Long-pressing (or right-clicking) a preview page offers to start a new page at the nearest line of the note.
+     */
+    private addLongPress(slot: HTMLElement) {
+        let timer = 0;
+        let start: { x: number, y: number } | null = null;
+        const open = (x: number, y: number) => {
+            window.clearTimeout(timer);
+            start = null;
+            const position = this.lineAtPoint(y);
+            if (!position) return;
+            this.longPressTime = Date.now();
+            const menu = new Menu();
+            menu.addItem(item => item.setTitle(`Insert page break before this line (${position.line + 1})`).setIcon('separator-horizontal')
+                .onClick(() => this.changePageBreak(file => this.plugin.movePageBreakMarker(file, null, position.line))));
+            menu.showAtPosition({ x, y });
+        };
+        slot.style.userSelect = "none"; slot.style.setProperty('-webkit-touch-callout', 'none');
+        slot.addEventListener('touchstart', (e) => {
+            window.clearTimeout(timer);
+            start = null;
+            if (e.touches.length !== 1) return;
+            const touch = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+            start = touch;
+            timer = window.setTimeout(() => open(touch.x, touch.y), 500);
+        });
+        slot.addEventListener('touchmove', (e) => {
+            if (start && Math.hypot(e.touches[0].clientX - start.x, e.touches[0].clientY - start.y) > 10) { window.clearTimeout(timer); start = null; }
+        });
+        slot.addEventListener('touchend', () => { window.clearTimeout(timer); start = null; });
+        slot.addEventListener('contextmenu', (e) => {
+            e.preventDefault();
+            // Touch screens send this after a long press as well
+            if (Date.now() - this.longPressTime > 800) open(e.clientX, e.clientY);
+        });
+    }
+
+    /**
+     * Shows the page breaks as dashed markers at the top of the line they move to a new page: the markers in
+     * the note's text and the breaks set by line number. A marker can be dragged to another line or removed.
+     */
+    private addBreakMarkers(file: TFile, markerLines: number[]) {
+        // Each break by the line (from 0) that starts the new page, and how to move it before another one
+        const breaks: { before: number, move: (file: TFile, before: number | null) => Promise<void> }[] = [];
+        for (const line of markerLines) breaks.push({ before: line + 1, move: (note, before) => this.plugin.movePageBreakMarker(note, line, before) });
+        for (const line of Array.from(new Set(parsePageBreaks(this.plugin.getExportSettings(file).pageBreaks)))) {
+            breaks.push({ before: line - 1, move: (note, before) => this.plugin.movePageBreak(note, line, before === null ? null : before + 1) });
+        }
+        for (const pageBreak of breaks) {
+            const position = this.sourceLines.find(p => p.line >= pageBreak.before);
+            const slot = position ? this.pageSlots[position.page - 1] : undefined;
+            if (!position || !slot) continue;
+            slot.el.style.position = "relative";
+            const marker = slot.el.createDiv({ cls: "pdf-break-marker" });
+            marker.style.cssText = `position: absolute; left: 0; right: 0; top: ${(position.y - 5) / slot.height * 100}%; height: 24px; margin-top: -12px; z-index: 1; touch-action: none; cursor: ns-resize;`;
+            marker.createDiv().style.cssText = "position: absolute; left: 0; right: 0; top: 50%; border-top: 2px dashed var(--interactive-accent);";
+            const label = marker.createDiv();
+            label.style.cssText = "position: absolute; right: 4px; top: 50%; transform: translateY(-50%); display: flex; align-items: center; gap: 6px; padding: 1px 8px; border-radius: 10px; font-size: 10px; background: var(--interactive-accent); color: var(--text-on-accent);";
+            label.createSpan({ text: `Break before line ${pageBreak.before + 1}` });
+            const remove = label.createSpan({ text: "✕", cls: "pdf-break-remove", attr: { "aria-label": "Remove page break" } });
+            remove.style.cursor = "pointer"; remove.style.padding = "2px";
+            remove.addEventListener('click', (e) => { e.stopPropagation(); this.changePageBreak(note => pageBreak.move(note, null)); });
+            // Taps and long presses on the marker are not meant for the page below it
+            marker.addEventListener('click', (e) => e.stopPropagation());
+            marker.addEventListener('touchstart', (e) => e.stopPropagation());
+            marker.addEventListener('contextmenu', (e) => { e.preventDefault(); e.stopPropagation(); });
+            this.makeDraggable(marker, pageBreak.before, before => this.changePageBreak(note => pageBreak.move(note, before)));
+        }
+    }
+
+    /**
+     * Drags a page break marker up or down; dropping it moves the break before the line nearest to the drop point.
+     */
+    private makeDraggable(marker: HTMLElement, before: number, drop: (before: number) => void) {
+        marker.addEventListener('pointerdown', (e) => {
+            if (e.button !== 0 || (e.target as HTMLElement).closest('.pdf-break-remove')) return;
+            e.preventDefault(); e.stopPropagation();
+            marker.setPointerCapture(e.pointerId);
+            const startY = e.clientY;
+            const move = (ev: PointerEvent) => { marker.style.transform = `translateY(${ev.clientY - startY}px)`; };
+            const end = (ev: PointerEvent) => {
+                marker.removeEventListener('pointermove', move);
+                marker.removeEventListener('pointerup', end);
+                marker.removeEventListener('pointercancel', end);
+                marker.style.transform = "";
+                if (ev.type === 'pointercancel' || Math.abs(ev.clientY - startY) < 5) return;
+                const target = this.lineAtPoint(ev.clientY);
+                if (target && target.line !== before) drop(target.line);
+            };
+            marker.addEventListener('pointermove', move);
+            marker.addEventListener('pointerup', end);
+            marker.addEventListener('pointercancel', end);
+        });
+    }
+
+    /**
+     * Changes the previewed note's page breaks, then shows the result.
+     */
+    private async changePageBreak(change: (file: TFile) => Promise<void>) {
+        if (!this.previewFile) return;
+        await change(this.previewFile);
+        this.refreshSettings();
+        this.updatePreview();
+    }
+
+    /**
+     * The note line whose first row is closest to a point of the preview, by its position on the screen.
+     */
+    private lineAtPoint(clientY: number): SourcePosition | undefined {
+        const index = this.pageSlots.findIndex(slot => {
+            const rect = slot.el.getBoundingClientRect();
+            return clientY >= rect.top && clientY <= rect.bottom;
+        });
+        if (index < 0) return undefined;
+        const slot = this.pageSlots[index];
+        const rect = slot.el.getBoundingClientRect();
+        const y = (clientY - rect.top) / rect.height * slot.height;
+        let nearest: SourcePosition | undefined;
+        for (const position of this.sourceLines) {
+            if (position.page !== index + 1) continue;
+            // Positions are baselines; measure from the middle of the row
+            if (!nearest || Math.abs(position.y - 2 - y) < Math.abs(nearest.y - 2 - y)) nearest = position;
+        }
+        return nearest;
+    }
+
+    /**
+     * Draws one page of the preview into its slot at twice the PDF's resolution.
+     */
+    private async drawPage(pdf: any, number: number, slot: HTMLElement): Promise<HTMLCanvasElement> {
+        const page = await pdf.getPage(number); const viewport = page.getViewport({ scale: 2.0 });
+        const canvas = document.createElement("canvas"); const context = canvas.getContext('2d');
+        canvas.height = viewport.height; canvas.width = viewport.width; canvas.style.width = "100%"; canvas.style.height = "auto"; canvas.style.display = "block";
+        await page.render({ canvasContext: context, viewport: viewport }).promise;
+        slot.appendChild(canvas);
+        return canvas;
+    }
+
+    /**
+     * Scrolls the preview to a line of the note, unless it is already in view.
+     */
+    scrollToLine(line: number) {
+        let position: SourcePosition | undefined;
+        for (const candidate of this.sourceLines) {
+            if (candidate.line > line) break;
+            position = candidate;
+        }
+        const slot = position ? this.pageSlots[position.page - 1] : undefined;
+        if (!position || !slot) return;
+        const container = this.previewContainer;
+        const offset = slot.el.getBoundingClientRect().top - container.getBoundingClientRect().top;
+        // A line's position is its baseline; keep its whole height in view
+        const top = container.scrollTop + offset + slot.el.offsetHeight * (position.y - 5) / slot.height;
+        const bottom = container.scrollTop + offset + slot.el.offsetHeight * (position.y + 2) / slot.height;
+        if (top < container.scrollTop || bottom > container.scrollTop + container.clientHeight) {
+            container.scrollTop = top - container.clientHeight / 3;
+        }
+    }
+
+    /**
+     * Scrolls the preview to the cursor of the previewed note's editor, at most every few hundred ms.
+     */
+    followCursor() {
+        if (this.cursorTimer) return;
+        this.cursorTimer = window.setTimeout(() => {
+            this.cursorTimer = 0;
+            const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+            if (view && this.previewFile && view.file && view.file.path === this.previewFile.path) this.scrollToLine(view.editor.getCursor().line);
+        }, 300);
+    }
+
+    /**
+     * Puts the editor cursor on the note line shown at a point (y in mm) of a preview page.
+     */
+    private goToSource(page: number, y: number) {
+        const file = this.previewFile;
+        if (!file) return;
+        // The last line that starts above the point, otherwise the first one after it
+        const ordered = this.sourceLines.slice().sort((a, b) => a.page - b.page || a.y - b.y || a.line - b.line);
+        const above = ordered.filter(p => p.page < page || (p.page === page && p.y - 5 <= y));
+        const target = above.length > 0 ? above[above.length - 1] : ordered[0];
+        if (!target) return;
+
+        const leaf = this.plugin.app.workspace.getLeavesOfType('markdown').find(l => l.view instanceof MarkdownView && l.view.file === file);
+        if (!leaf) return;
+        const editor = (leaf.view as MarkdownView).editor;
+        this.plugin.app.workspace.setActiveLeaf(leaf, { focus: true });
+        editor.setCursor({ line: target.line, ch: 0 });
+        editor.scrollIntoView({ from: { line: target.line, ch: 0 }, to: { line: target.line, ch: 0 } }, true);
+    }
+
+    /**
+     * Removes the preview's pages and stops drawing them.
+     */
+    private clearPreview() {
+        if (this.pageObserver) { this.pageObserver.disconnect(); this.pageObserver = null; }
+        if (this.previewPdf) { this.previewPdf.destroy(); this.previewPdf = null; }
+        this.pageSlots = [];
+        this.zoomWrapper.empty(); this.zoomLevel = 1.0; this.zoomWrapper.style.width = "100%";
+    }
+
+    private setPreviewStatus(text: string) {
+        if (!this.previewStatus) return;
+        this.previewStatus.setText(text);
+        this.previewStatus.style.display = text ? "" : "none";
     }
 }
 
@@ -1007,5 +2688,119 @@ class PdfSettingTab extends PluginSettingTab {
                     this.plugin.settings.defaultExportPath = value;
                     await this.plugin.saveSettings();
                 }));
+
+        new Setting(containerEl)
+            .setName('Export Destination')
+            .setDesc('Where exported PDFs go: saved in the vault, sent to another app through the share sheet, downloaded outside the vault, or shared from a temporary file that is deleted afterwards. The sidebar can pick another one for a single export.')
+            .addDropdown(dropdown => {
+                for (const [target, name] of Object.entries(EXPORT_TARGETS)) dropdown.addOption(target, name);
+                dropdown.setValue(this.plugin.settings.exportTarget)
+                    .onChange(async (value) => {
+                        this.plugin.settings.exportTarget = value as ExportTarget;
+                        await this.plugin.saveSettings();
+                        if (this.plugin.view) this.plugin.view.display();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Document Author')
+            .setDesc('Author written to the PDF properties when the note has no "author" property.')
+            .addText(text => text
+                .setValue(this.plugin.settings.documentAuthor)
+                .onChange(async (value) => {
+                    this.plugin.settings.documentAuthor = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Document Language')
+            .setDesc('Language tag of the PDF (e.g. "en-US" or "de") when the note has no "lang" property. Leave empty to use the language of Obsidian.')
+            .addText(text => text
+                .setPlaceholder('e.g. en-US')
+                .setValue(this.plugin.settings.documentLanguage)
+                .onChange(async (value) => {
+                    this.plugin.settings.documentLanguage = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Presets' });
+        containerEl.createEl('div', {
+            text: 'A preset stores all export settings. Pick one in the sidebar, or add "pdf-preset: name" to the frontmatter of a note to always export it with that preset.',
+            cls: 'setting-item-description'
+        });
+
+        let newPresetName = '';
+        new Setting(containerEl)
+            .setName('New Preset')
+            .setDesc('Save the current settings under a new name')
+            .addText(text => text
+                .setPlaceholder('e.g. report')
+                .onChange(value => { newPresetName = value; }))
+            .addButton(button => button
+                .setButtonText('Create')
+                .onClick(async () => {
+                    if (!this.isValidPresetName(newPresetName)) return;
+                    this.plugin.settings.presets.push({ name: newPresetName.trim(), settings: this.plugin.createPresetSnapshot() });
+                    await this.saveAndRefresh();
+                }));
+
+        for (const preset of this.plugin.settings.presets) {
+            new Setting(containerEl)
+                .addText(text => {
+                    text.setValue(preset.name);
+                    // Rename once the field loses focus, so half-typed names aren't validated
+                    text.inputEl.addEventListener('change', async () => {
+                        const name = text.getValue().trim();
+                        if (name === preset.name) return;
+                        if (!this.isValidPresetName(name, preset)) { text.setValue(preset.name); return; }
+                        if (this.plugin.settings.activePreset === preset.name) this.plugin.settings.activePreset = name;
+                        preset.name = name;
+                        await this.saveAndRefresh();
+                    });
+                })
+                .addExtraButton(button => button
+                    .setIcon('save')
+                    .setTooltip('Overwrite with the current settings')
+                    .onClick(() => this.plugin.updatePreset(preset.name)))
+                .addExtraButton(button => button
+                    .setIcon('copy')
+                    .setTooltip('Duplicate')
+                    .onClick(async () => {
+                        let name = `${preset.name} copy`;
+                        for (let n = 2; this.plugin.findPreset(name); n++) name = `${preset.name} copy ${n}`;
+                        this.plugin.settings.presets.push({ name, settings: Object.assign({}, preset.settings) });
+                        await this.saveAndRefresh();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete')
+                    .onClick(async () => {
+                        this.plugin.settings.presets = this.plugin.settings.presets.filter(p => p !== preset);
+                        if (this.plugin.settings.activePreset === preset.name) this.plugin.settings.activePreset = '';
+                        await this.saveAndRefresh();
+                    }));
+        }
+    }
+
+    /**
+     * Checks a new preset name, or a new name for `renamed`, which may differ from its own name only in case.
+     */
+    private isValidPresetName(name: string, renamed?: PdfPreset): boolean {
+        if (!name.trim()) {
+            new Notice('Please enter a preset name.');
+            return false;
+        }
+        const existing = this.plugin.findPreset(name);
+        if (existing && existing !== renamed) {
+            new Notice(`A preset named "${name.trim()}" already exists.`);
+            return false;
+        }
+        return true;
+    }
+
+    private async saveAndRefresh() {
+        await this.plugin.saveSettings();
+        this.display();
+        if (this.plugin.view) this.plugin.view.display(); // Keep the sidebar's preset list in sync
     }
 }
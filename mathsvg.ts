@@ -0,0 +1,264 @@
+import { jsPDF } from "jspdf";
+
+// Affine transform [a, b, c, d, e, f], as in SVG's matrix()
+export type Matrix = number[];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export function multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+        m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+        m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5]
+    ];
+}
+
+export function apply(m: Matrix, x: number, y: number): number[] {
+    return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Parses an SVG transform attribute (matrix, translate, scale and rotate, in any combination).
+ */
+export function parseTransform(value: string | null): Matrix {
+    let result = IDENTITY;
+    if (!value) return result;
+    const regex = /(matrix|translate|scale|rotate)\s*\(([^)]*)\)/g;
+    let match;
+    while ((match = regex.exec(value)) !== null) {
+        const args = match[2].split(/[\s,]+/).filter(a => a).map(parseFloat);
+        let m = IDENTITY;
+        if (match[1] === 'matrix' && args.length === 6) m = args;
+        else if (match[1] === 'translate') m = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        else if (match[1] === 'scale') m = [args[0], 0, 0, args.length > 1 ? args[1] : args[0], 0, 0];
+        else if (match[1] === 'rotate') {
+            const angle = (args[0] || 0) * Math.PI / 180, cos = Math.cos(angle), sin = Math.sin(angle);
+            m = [cos, sin, -sin, cos, 0, 0];
+            if (args.length === 3) m = multiply(multiply([1, 0, 0, 1, args[1], args[2]], m), [1, 0, 0, 1, -args[1], -args[2]]);
+        }
+        result = multiply(result, m);
+    }
+    return result;
+}
+
+export interface PathSegment {
+    op: 'm' | 'l' | 'c' | 'h';
+    c: number[];
+}
+
+/**
+ * Cubic curves for an SVG elliptical arc from (x1, y1) to (x2, y2), one per quarter turn or less. Follows the
+ * endpoint-to-center conversion of the SVG spec, including radii too small to reach the end point.
+ */
+function arcToCurves(x1: number, y1: number, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, x2: number, y2: number): PathSegment[] {
+    if (x1 === x2 && y1 === y2) return [];
+    rx = Math.abs(rx); ry = Math.abs(ry);
+    if (rx === 0 || ry === 0) return [{ op: 'l', c: [x2, y2] }];
+    const phi = rotation * Math.PI / 180, cosPhi = Math.cos(phi), sinPhi = Math.sin(phi);
+    const hx = (x1 - x2) / 2, hy = (y1 - y2) / 2;
+    const px = cosPhi * hx + sinPhi * hy, py = -sinPhi * hx + cosPhi * hy;
+    const lambda = px * px / (rx * rx) + py * py / (ry * ry);
+    if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+
+    const rx2 = rx * rx, ry2 = ry * ry;
+    let coefficient = Math.sqrt(Math.max(0, (rx2 * ry2 - rx2 * py * py - ry2 * px * px) / (rx2 * py * py + ry2 * px * px)));
+    if (largeArc === sweep) coefficient = -coefficient;
+    const cpx = coefficient * rx * py / ry, cpy = -coefficient * ry * px / rx;
+    const cx = cosPhi * cpx - sinPhi * cpy + (x1 + x2) / 2, cy = sinPhi * cpx + cosPhi * cpy + (y1 + y2) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const start = angle(1, 0, (px - cpx) / rx, (py - cpy) / ry);
+    let delta = angle((px - cpx) / rx, (py - cpy) / ry, (-px - cpx) / rx, (-py - cpy) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    else if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+    const step = delta / count;
+    // Control points lie along the tangents, at this fraction of them
+    const k = 4 / 3 * Math.tan(step / 4);
+    const point = (t: number) => [cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi, cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi];
+    const tangent = (t: number) => [-rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi, -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi];
+    const curves: PathSegment[] = [];
+    for (let n = 0; n < count; n++) {
+        const t1 = start + n * step, t2 = t1 + step;
+        const [ax, ay] = point(t1), [adx, ady] = tangent(t1);
+        const [bx, by] = n === count - 1 ? [x2, y2] : point(t2), [bdx, bdy] = tangent(t2);
+        curves.push({ op: 'c', c: [ax + k * adx, ay + k * ady, bx - k * bdx, by - k * bdy, bx, by] });
+    }
+    return curves;
+}
+
+/**
+ * Parses SVG path data into absolute move, line, cubic curve and close segments. Quadratic curves and
+ * elliptical arcs become cubic ones.
+ */
+export function parsePath(d: string): PathSegment[] {
+    const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || [];
+    const segments: PathSegment[] = [];
+    let x = 0, y = 0, startX = 0, startY = 0;
+    // Last control point, for the smooth S and T commands
+    let controlX = 0, controlY = 0, lastCommand = '';
+    let command = '';
+    let i = 0;
+    const next = () => parseFloat(tokens[i++]);
+    // Arc flags are single digits and may run into the next number, as in "a5 5 0 0110 10"
+    const flag = () => {
+        const token = tokens[i] || '0';
+        if (token.length > 1 && /^[01]/.test(token)) { tokens[i] = token.substring(1); return token[0] === '1'; }
+        i++;
+        return token === '1';
+    };
+
+    while (i < tokens.length) {
+        if (/[a-zA-Z]/.test(tokens[i])) command = tokens[i++];
+        else if (!command) { i++; continue; }
+        const relative = command === command.toLowerCase();
+        const dx = relative ? x : 0, dy = relative ? y : 0;
+
+        switch (command.toUpperCase()) {
+            case 'M':
+                x = next() + dx; y = next() + dy;
+                startX = x; startY = y;
+                segments.push({ op: 'm', c: [x, y] });
+                // Further coordinate pairs are implicit line-tos
+                command = relative ? 'l' : 'L';
+                break;
+            case 'L':
+                x = next() + dx; y = next() + dy;
+                segments.push({ op: 'l', c: [x, y] });
+                break;
+            case 'H':
+                x = next() + dx;
+                segments.push({ op: 'l', c: [x, y] });
+                break;
+            case 'V':
+                y = next() + dy;
+                segments.push({ op: 'l', c: [x, y] });
+                break;
+            case 'C': {
+                const x1 = next() + dx, y1 = next() + dy, x2 = next() + dx, y2 = next() + dy;
+                x = next() + dx; y = next() + dy;
+                segments.push({ op: 'c', c: [x1, y1, x2, y2, x, y] });
+                controlX = x2; controlY = y2;
+                break;
+            }
+            case 'S': {
+                const smooth = /[CS]/i.test(lastCommand);
+                const x1 = smooth ? 2 * x - controlX : x, y1 = smooth ? 2 * y - controlY : y;
+                const x2 = next() + dx, y2 = next() + dy;
+                x = next() + dx; y = next() + dy;
+                segments.push({ op: 'c', c: [x1, y1, x2, y2, x, y] });
+                controlX = x2; controlY = y2;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                let qx: number, qy: number;
+                if (command.toUpperCase() === 'Q') { qx = next() + dx; qy = next() + dy; }
+                else if (/[QT]/i.test(lastCommand)) { qx = 2 * x - controlX; qy = 2 * y - controlY; }
+                else { qx = x; qy = y; }
+                const endX = next() + dx, endY = next() + dy;
+                // Same curve as a cubic: control points two thirds of the way to the quadratic one
+                segments.push({ op: 'c', c: [x + 2 / 3 * (qx - x), y + 2 / 3 * (qy - y), endX + 2 / 3 * (qx - endX), endY + 2 / 3 * (qy - endY), endX, endY] });
+                controlX = qx; controlY = qy;
+                x = endX; y = endY;
+                break;
+            }
+            case 'A': {
+                const rx = next(), ry = next(), rotation = next(), largeArc = flag(), sweep = flag();
+                const endX = next() + dx, endY = next() + dy;
+                segments.push(...arcToCurves(x, y, rx, ry, rotation, largeArc, sweep, endX, endY));
+                x = endX; y = endY;
+                break;
+            }
+            case 'Z':
+                x = startX; y = startY;
+                segments.push({ op: 'h', c: [] });
+                break;
+            default:
+                i++;
+        }
+        lastCommand = command;
+    }
+    return segments;
+}
+
+/**
+ * Resolves an SVG paint value to RGB. currentColor and unset values inherit; "none" means no paint.
+ */
+function resolvePaint(value: string | null, inherited: number[] | null, currentColor: number[]): number[] | null {
+    if (value === null || value === '' || value === 'inherit') return inherited;
+    if (value === 'none' || value === 'transparent') return null;
+    if (value === 'currentColor') return currentColor;
+    // Let the browser normalise named and rgb() colors to #rrggbb
+    const context = document.createElement('canvas').getContext('2d');
+    if (!context) return currentColor;
+    context.fillStyle = value;
+    const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(String(context.fillStyle));
+    return hex ? [parseInt(hex[1], 16), parseInt(hex[2], 16), parseInt(hex[3], 16)] : currentColor;
+}
+
+/**
+ * Draws a MathJax SVG as PDF vector paths. The SVG's y = 0 is the formula baseline, which is placed
+ * at (x, baseline); `scale` is millimetres per SVG unit (MathJax uses 1000 units per em).
+ */
+export function drawSvg(doc: jsPDF, svg: SVGSVGElement, x: number, baseline: number, scale: number, color: number[]) {
+    const viewBox = (svg.getAttribute('viewBox') || '0 0 0 0').split(/[\s,]+/).map(parseFloat);
+    const root: Matrix = [scale, 0, 0, scale, x - viewBox[0] * scale, baseline];
+
+    const fillPath = (segments: PathSegment[], m: Matrix, fill: number[]) => {
+        if (segments.length === 0) return;
+        const transformed = segments.map(s => {
+            const c: number[] = [];
+            for (let k = 0; k < s.c.length; k += 2) c.push(...apply(m, s.c[k], s.c[k + 1]));
+            return { op: s.op, c };
+        });
+        doc.setFillColor(fill[0], fill[1], fill[2]);
+        doc.path(transformed);
+        doc.fill();
+    };
+
+    const drawElement = (el: Element, m: Matrix, fill: number[] | null, stroke: number[] | null) => {
+        const tag = el.tagName.toLowerCase();
+        if (tag === 'defs') return;
+        const local = multiply(m, parseTransform(el.getAttribute('transform')));
+        const elFill = resolvePaint(el.getAttribute('fill'), fill, color);
+        const elStroke = resolvePaint(el.getAttribute('stroke'), stroke, color);
+
+        if (tag === 'g' || tag === 'a' || tag === 'svg') {
+            // Nested <svg> elements are positioned by their x and y
+            const offset = tag === 'svg' ? multiply(local, [1, 0, 0, 1, parseFloat(el.getAttribute('x') || '0'), parseFloat(el.getAttribute('y') || '0')]) : local;
+            for (const child of Array.from(el.children)) drawElement(child, offset, elFill, elStroke);
+        } else if (tag === 'use') {
+            const href = el.getAttribute('href') || el.getAttribute('xlink:href') || '';
+            const target = href.startsWith('#') ? svg.querySelector(`[id="${href.substring(1)}"]`) : null;
+            const offset = multiply(local, [1, 0, 0, 1, parseFloat(el.getAttribute('x') || '0'), parseFloat(el.getAttribute('y') || '0')]);
+            if (target) drawElement(target, offset, elFill, elStroke);
+        } else if (tag === 'path' && elFill) {
+            fillPath(parsePath(el.getAttribute('d') || ''), local, elFill);
+        } else if (tag === 'rect' && elFill) {
+            const rx = parseFloat(el.getAttribute('x') || '0'), ry = parseFloat(el.getAttribute('y') || '0');
+            const w = parseFloat(el.getAttribute('width') || '0'), h = parseFloat(el.getAttribute('height') || '0');
+            fillPath([{ op: 'm', c: [rx, ry] }, { op: 'l', c: [rx + w, ry] }, { op: 'l', c: [rx + w, ry + h] }, { op: 'l', c: [rx, ry + h] }, { op: 'h', c: [] }], local, elFill);
+        } else if (tag === 'line' && elStroke) {
+            const [x1, y1] = apply(local, parseFloat(el.getAttribute('x1') || '0'), parseFloat(el.getAttribute('y1') || '0'));
+            const [x2, y2] = apply(local, parseFloat(el.getAttribute('x2') || '0'), parseFloat(el.getAttribute('y2') || '0'));
+            doc.setDrawColor(elStroke[0], elStroke[1], elStroke[2]);
+            doc.setLineWidth(parseFloat(el.getAttribute('stroke-width') || '1') * Math.sqrt(Math.abs(local[0] * local[3] - local[1] * local[2])));
+            doc.line(x1, y1, x2, y2);
+        } else if (tag === 'text' && elFill && el.textContent) {
+            // Characters MathJax has no glyph for are left as text
+            const [tx, ty] = apply(local, parseFloat(el.getAttribute('x') || '0'), parseFloat(el.getAttribute('y') || '0'));
+            const sizeMm = parseFloat(el.getAttribute('font-size') || '1000') * Math.sqrt(Math.abs(local[0] * local[3] - local[1] * local[2]));
+            const fontSize = doc.getFontSize();
+            doc.setTextColor(elFill[0], elFill[1], elFill[2]);
+            doc.setFontSize(sizeMm / 0.352778);
+            doc.text(el.textContent, tx, ty);
+            doc.setFontSize(fontSize);
+        }
+    };
+
+    doc.saveGraphicsState();
+    for (const child of Array.from(svg.children)) drawElement(child, root, color, null);
+    doc.restoreGraphicsState();
+}
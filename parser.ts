@@ -0,0 +1,566 @@
+// Markdown as the exporter understands it: a tree of blocks with inline runs. Parsing needs nothing from
+// Obsidian; links to other notes, embeds, formulas and rendered code blocks are filled in by the plugin.
+
+export type TableAlignment = 'left' | 'center' | 'right';
+
+// A typeset formula, sized in ems: width, height above the baseline and depth below it.
+// Holds MathJax's SVG when available, otherwise an image of the rendered HTML.
+export interface MathRender {
+    width: number;
+    height: number;
+    depth: number;
+    svg?: SVGSVGElement;
+    image?: string;
+}
+
+// A code block rendered by Obsidian or a plugin (e.g. a Mermaid diagram), sized in CSS pixels.
+// Holds the SVG when it can be drawn as vectors, otherwise an image of the output.
+export interface DiagramRender {
+    width: number;
+    height: number;
+    svg?: SVGSVGElement;
+    image?: string;
+}
+
+export interface LoadedImage {
+    data: Uint8Array | string;
+    format: string;
+    width?: number;
+    height?: number;
+    // Vault path or URL the image was loaded from
+    source?: string;
+}
+
+// Where a link points. path is the linked note ('' for the note itself) and subpath the part after #;
+// url and heading are the resolved destination, a heading being one of the exported note's own.
+export interface Link {
+    path: string;
+    subpath: string;
+    url?: string;
+    heading?: string;
+}
+
+export interface TextStyle {
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    strike: boolean;
+    highlight: boolean;
+    code: boolean;
+    // From <span style="color:rgb(...)">
+    color?: number[];
+}
+
+export interface TextInline {
+    type: 'text';
+    text: string;
+    style: TextStyle;
+    link?: Link;
+}
+
+export interface MathInline {
+    type: 'math';
+    tex: string;
+    display: boolean;
+    render?: MathRender | null;
+}
+
+// [^id] with its definition, or ^[inline text]; key identifies the definition so repeated references share a number
+export interface FootnoteInline {
+    type: 'footnote';
+    text: string;
+    key?: string;
+}
+
+// ![[Note]], ![[image.png|caption|width]] or ![alt|width](image.png). The plugin resolves it to the
+// embedded note's blocks or an image; error says why neither could be loaded.
+export interface EmbedInline {
+    type: 'embed';
+    source: string;
+    target: string;
+    caption: string;
+    width: number | null;
+    note?: Block[];
+    image?: LoadedImage;
+    error?: string;
+}
+
+export type Inline = TextInline | MathInline | FootnoteInline | EmbedInline;
+
+export type ListMarker =
+    | { type: 'bullet', depth: number }
+    | { type: 'number', label: string }
+    | { type: 'task', state: string };
+
+// Every block knows the line it starts on (0-based, in the note it comes from)
+export interface ParagraphBlock {
+    type: 'paragraph';
+    line: number;
+    // Leading whitespace in columns, a tab counting as four
+    indent: number;
+    list?: ListMarker;
+    inlines: Inline[];
+}
+
+export interface HeadingBlock {
+    type: 'heading';
+    line: number;
+    level: number;
+    text: string;
+}
+
+export interface CodeBlock {
+    type: 'code';
+    line: number;
+    language: string;
+    lines: { text: string, line: number }[];
+    // Set by the plugin for Mermaid and plugin code blocks it could render
+    render?: DiagramRender | null;
+}
+
+export interface MathBlock {
+    type: 'math';
+    line: number;
+    tex: string;
+    render?: MathRender | null;
+}
+
+export interface TableBlock {
+    type: 'table';
+    line: number;
+    alignments: TableAlignment[];
+    // Header row first; every row has a cell for each column
+    rows: TextInline[][][];
+}
+
+export interface RuleBlock {
+    type: 'rule';
+    line: number;
+}
+
+export interface Callout {
+    type: string;
+    // '+' or '-' for foldable callouts, '-' being folded
+    fold: string;
+    title: string;
+}
+
+export interface QuoteBlock {
+    type: 'quote';
+    line: number;
+    callout?: Callout;
+    children: Block[];
+    // The callout's icon, set by the plugin
+    icon?: LoadedImage | null;
+}
+
+export interface PageBreakBlock {
+    type: 'pageBreak';
+    line: number;
+}
+
+export type Block = ParagraphBlock | HeadingBlock | CodeBlock | MathBlock | TableBlock | RuleBlock | QuoteBlock | PageBreakBlock;
+
+export interface ParseOptions {
+    // Footnote definitions by id; collected from the lines themselves by default
+    footnotes?: Record<string, string>;
+    // Identifies the note in footnote keys
+    source?: string;
+    // Line number of the first line
+    firstLine?: number;
+    // Quote content has no frontmatter
+    inQuote?: boolean;
+}
+
+export const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s+(.*)/;
+
+export const FOOTNOTE_DEFINITION_REGEX = /^\[\^([^\]]+)\]:\s?(.*)$/;
+// Indented lines after a footnote definition continue it
+const FOOTNOTE_CONTINUATION_REGEX = /^( {2,}|\t)\S/;
+
+// Page break markers on a line of their own: a CSS page-break div, \pagebreak / \newpage, or a %%pagebreak%% comment
+export const PAGE_BREAK_REGEX = /^\s*(<div\s[^>]*(page-break-(before|after)|break-(before|after))\s*:\s*(always|page)[^>]*>\s*<\/div>|\\pagebreak|\\newpage|%%\s*pagebreak\s*%%)\s*$/i;
+export const PAGE_BREAK_MARKER = '<div style="page-break-after: always;"></div>';
+// The marker the preview inserts; as a comment it is hidden in Obsidian's reading view
+export const PAGE_BREAK_COMMENT = '%%pagebreak%%';
+
+const INLINE_TOKEN_REGEX = /(\[\^[^\]]+\])|(\^\[[^\]]+\])|(\[\[[^\]]+\]\])|(\[[^\]]*\]\([^)\s]+(?:\s+"[^"]*")?\))|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])|(\$\$[\s\S]*?\$\$)|(\$[^$\n]+\$)|(<span style="color:rgb[^>]*>.*?<\/span>)|(<u>.*?<\/u>)|(<s>.*?<\/s>)|(<mark>.*?<\/mark>)|(<code>.*?<\/code>)|(==.*?==)|(~~.*?~~)|(`.*?`)|(\*\*\*|\*\*|\*|_)/g;
+
+const TABLE_CELL_TOKEN_REGEX = /(\[\[[^\]]+\]\])|(\[[^\]]*\]\([^)\s]+(?:\s+"[^"]*")?\))|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])|(<s>.*?<\/s>)|(<mark>.*?<\/mark>)|(<code>.*?<\/code>)|(==.*?==)|(~~.*?~~)|(`.*?`)|(\*\*\*|\*\*|\*|_)/g;
+
+/**
+ * Collects footnote definitions ([^id]: text) by id, skipping fenced code blocks.
+ */
+export function collectFootnotes(lines: string[]): Record<string, string> {
+    const definitions: Record<string, string> = {};
+    let fence = '';
+    for (let i = 0; i < lines.length; i++) {
+        const fenceMatch = lines[i].match(/^\s*(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            if (!fence) fence = fenceMatch[1][0];
+            else if (fenceMatch[1][0] === fence) fence = '';
+            continue;
+        }
+        if (fence) continue;
+        const match = lines[i].match(FOOTNOTE_DEFINITION_REGEX);
+        if (!match) continue;
+        let text = match[2].trim();
+        while (i + 1 < lines.length && FOOTNOTE_CONTINUATION_REGEX.test(lines[i + 1])) text += ' ' + lines[++i].trim();
+        definitions[match[1]] = text;
+    }
+    return definitions;
+}
+
+/**
+ * Splits a Markdown table row into its cells. Escaped pipes (\|) stay in the cell as plain pipes.
+ */
+export function splitTableRow(line: string): string[] {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.substring(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.substring(0, row.length - 1);
+    const cells: string[] = [];
+    let current = '';
+    for (let i = 0; i < row.length; i++) {
+        if (row[i] === '\\' && row[i + 1] === '|') { current += '|'; i++; }
+        else if (row[i] === '|') { cells.push(current.trim()); current = ''; }
+        else current += row[i];
+    }
+    cells.push(current.trim());
+    return cells;
+}
+
+/**
+ * Reads the column alignments from a table's delimiter row (---, :---, :---: or ---:).
+ * Returns null if the row is not a delimiter row.
+ */
+export function parseTableAlignment(cells: string[]): TableAlignment[] | null {
+    if (cells.length === 0 || !cells.every(c => /^:?-+:?$/.test(c))) return null;
+    return cells.map(c => c.startsWith(':') && c.endsWith(':') ? 'center' : (c.endsWith(':') ? 'right' : 'left'));
+}
+
+/**
+ * Reduces inline Markdown (wikilinks, HTML tags, emphasis, code) to its visible text.
+ */
+export function stripInlineMarkdown(text: string): string {
+    return text
+        .replace(/\[\^[^\]]+\]|\^\[[^\]]+\]/g, '')
+        .replace(/\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+        .replace(/<[^>]+>/g, '')
+        .replace(/\*\*\*|\*\*|\*|==|~~|`/g, '')
+        .trim();
+}
+
+/**
+ * Parses ![[target|caption|width]] and ![alt|width](target) embeds.
+ */
+export function parseImageEmbed(embed: string): { target: string, caption: string, width: number | null } {
+    const wikiMatch = embed.match(/^!\[\[(.*?)\]\]$/);
+    const markdownMatch = embed.match(/^!\[([^\]]*)\]\(\s*<?([^)>]*?)>?(?:\s+"[^"]*")?\s*\)$/);
+    let target = '';
+    let options: string[] = [];
+    if (wikiMatch) {
+        const linkParts = wikiMatch[1].split('|');
+        target = linkParts[0];
+        options = linkParts.slice(1);
+    } else if (markdownMatch) {
+        // The alt text is the caption, optionally followed by |width like in wikilinks
+        target = markdownMatch[2].trim();
+        options = markdownMatch[1].split('|');
+        if (!/^https?:\/\//i.test(target)) {
+            try { target = decodeURIComponent(target); } catch (e) {}
+        }
+    }
+
+    let caption = '';
+    let width: number | null = null;
+    // Standard Obsidian behavior: if a part is a number, it's width.
+    // If not, it's the description/caption.
+    for (const option of options) {
+        const pW = parseInt(option);
+        if (!isNaN(pW)) width = pW;
+        else if (option.trim()) caption = option.trim();
+    }
+    return { target, caption, width };
+}
+
+/**
+ * Parses a wikilink, Markdown link or bare URL token into its display text and destination. Web links
+ * and links to headings of the same note are resolved here; links to other notes are left to the plugin.
+ */
+export function parseLinkToken(token: string): { text: string, link: Link } | null {
+    if (/^https?:\/\//.test(token)) return { text: token, link: { path: '', subpath: '', url: token } };
+
+    let text: string, target: string;
+    const wikiMatch = token.match(/^\[\[([^\]]+)\]\]$/);
+    const markdownMatch = token.match(/^\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)$/);
+    if (wikiMatch) {
+        const [linkTarget, alias] = wikiMatch[1].split('|');
+        target = linkTarget.trim();
+        text = alias !== undefined ? alias : target.replace(/^#/, '');
+    } else if (markdownMatch) {
+        text = stripInlineMarkdown(markdownMatch[1]) || markdownMatch[2];
+        target = markdownMatch[2];
+        if (/^[a-z][a-z0-9+.-]*:/i.test(target)) return { text, link: { path: '', subpath: '', url: target } };
+        try { target = decodeURIComponent(target); } catch (e) {}
+    } else {
+        return null;
+    }
+
+    const hashIndex = target.indexOf('#');
+    const link: Link = {
+        path: hashIndex === -1 ? target : target.substring(0, hashIndex),
+        subpath: hashIndex === -1 ? '' : target.substring(hashIndex + 1)
+    };
+    // Nested heading links (#Parent#Child) point at the last heading; block links (#^id) have no target here
+    if (!link.path && link.subpath && !link.subpath.startsWith('^')) link.heading = stripInlineMarkdown(link.subpath.split('#').pop() || '');
+    return { text, link };
+}
+
+function plainStyle(bold: boolean, italic: boolean): TextStyle {
+    return { bold, italic, underline: false, strike: false, highlight: false, code: false };
+}
+
+/**
+ * Splits a table cell into runs of emphasis, code, highlight, strikethrough and links.
+ * <br> tags become line breaks; footnote references are dropped.
+ */
+export function parseTableCell(cell: string): TextInline[] {
+    const text = cell.replace(/<br\s*\/?>/gi, '\n').replace(/\[\^[^\]]+\]|\^\[[^\]]+\]/g, '');
+    const tokens = text.split(TABLE_CELL_TOKEN_REGEX).filter(t => t !== undefined && t !== '');
+    const runs: TextInline[] = [];
+    let bold = false, italic = false;
+    for (const token of tokens) {
+        if (token === '***') { bold = !bold; italic = !italic; continue; }
+        if (token === '**') { bold = !bold; continue; }
+        if (token === '*' || token === '_') { italic = !italic; continue; }
+
+        const run: TextInline = { type: 'text', text: token, style: plainStyle(bold, italic) };
+        const link = parseLinkToken(token);
+        if (link) { run.text = link.text; run.link = link.link; }
+        else if (/^(==.*==|<mark>.*<\/mark>)$/.test(token)) { run.style.highlight = true; run.text = token.replace(/^(==|<mark>)|(==|<\/mark>)$/g, ''); }
+        else if (/^(~~.*~~|<s>.*<\/s>)$/.test(token)) { run.style.strike = true; run.text = token.replace(/^(~~|<s>)|(~~|<\/s>)$/g, ''); }
+        else if (/^(`.*`|<code>.*<\/code>)$/.test(token)) { run.style.code = true; run.text = token.replace(/^(`|<code>)|(`|<\/code>)$/g, ''); }
+        else run.text = token.replace(/<[^>]+>/g, '');
+        if (run.text) runs.push(run);
+    }
+    return runs;
+}
+
+/**
+ * Tokenizes a line's text (without embeds) into styled runs, formulas and footnote references.
+ * Unknown footnote references stay as written.
+ */
+function parseInlines(text: string, footnotes: Record<string, string>, source: string, strike: boolean): Inline[] {
+    const inlines: Inline[] = [];
+    const tokens = text.split(INLINE_TOKEN_REGEX).filter(t => t !== undefined && t !== '');
+    let isBold = false, isItalic = false;
+    for (const token of tokens) {
+        if (token === '***') { isBold = !isBold; isItalic = !isItalic; continue; }
+        if (token === '**') { isBold = !isBold; continue; }
+        if (token === '*' || token === '_') { isItalic = !isItalic; continue; }
+
+        const footnoteMatch = token.match(/^\[\^([^\]]+)\]$/);
+        const inlineFootnoteMatch = token.match(/^\^\[([^\]]+)\]$/);
+        if (inlineFootnoteMatch) { inlines.push({ type: 'footnote', text: inlineFootnoteMatch[1] }); continue; }
+        if (footnoteMatch && footnotes[footnoteMatch[1]] !== undefined) {
+            inlines.push({ type: 'footnote', text: footnotes[footnoteMatch[1]], key: `${source}#${footnoteMatch[1]}` });
+            continue;
+        }
+
+        const style = plainStyle(isBold, isItalic);
+        style.strike = strike;
+        let textToRender = token;
+
+        const link = parseLinkToken(token);
+        if (link) textToRender = link.text;
+
+        // Check for HTML and Markdown tags
+        if (token.startsWith('<u>') && token.endsWith('</u>')) { style.underline = true; textToRender = token.substring(3, token.length - 4); }
+        else if ((token.startsWith('<s>') && token.endsWith('</s>')) || (token.startsWith('~~') && token.endsWith('~~'))) {
+            style.strike = true; textToRender = token.startsWith('~~') ? token.substring(2, token.length - 2) : token.substring(3, token.length - 4);
+        }
+        else if ((token.startsWith('<mark>') && token.endsWith('</mark>')) || (token.startsWith('==') && token.endsWith('=='))) {
+            style.highlight = true; textToRender = token.startsWith('==') ? token.substring(2, token.length - 2) : token.substring(6, token.length - 7);
+        }
+        else if ((token.startsWith('<code>') && token.endsWith('</code>')) || (token.startsWith('`') && token.endsWith('`'))) {
+            style.code = true; textToRender = token.startsWith('`') ? token.substring(1, token.length - 1) : token.substring(6, token.length - 7);
+        }
+
+        if (link) {
+            // Links keep their own color and skip the markup checks below
+            inlines.push({ type: 'text', text: textToRender, style, link: link.link });
+            continue;
+        }
+        const colorMatch = textToRender.match(/<span style="color:rgb\(([^)]+)\)">(.*?)<\/span>/);
+        const blockMathMatch = textToRender.match(/^\$\$([\s\S]*?)\$\$/);
+        const inlineMathMatch = textToRender.match(/^\$([^$\n]+)\$/);
+        if (colorMatch) {
+            const colors = colorMatch[1].split(',').map(c => parseInt(c.trim()));
+            if (colors.length === 3) style.color = colors;
+            inlines.push({ type: 'text', text: colorMatch[2], style });
+        } else if (blockMathMatch || inlineMathMatch) {
+            inlines.push({ type: 'math', tex: blockMathMatch ? blockMathMatch[1] : (inlineMathMatch ? inlineMathMatch[1] : ''), display: !!blockMathMatch });
+        } else {
+            inlines.push({ type: 'text', text: textToRender, style });
+        }
+    }
+    return inlines;
+}
+
+/**
+ * Parses a note's lines into blocks. Quote content is parsed the same way, so callouts can hold
+ * lists, tables, code and other callouts.
+ */
+export function parseMarkdown(lines: string[], options: ParseOptions = {}): Block[] {
+    const footnotes = options.footnotes || collectFootnotes(lines);
+    const source = options.source || '';
+    const firstLine = options.firstLine || 0;
+    const blocks: Block[] = [];
+    let inFrontmatter = !options.inQuote && lines.length > 0 && lines[0].trim() === '---';
+    // Open list levels by indentation, with the running number of ordered lists
+    const listStack: { indent: number, number: number, ordered: boolean }[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        let line = lines[i].replace(/\s+$/, '');
+        const lineNumber = firstLine + i;
+
+        // Skip YAML frontmatter
+        if (inFrontmatter) {
+            if (i > 0 && line.trim() === '---') inFrontmatter = false;
+            continue;
+        }
+
+        // Any unindented line other than a list item or a blank line ends the list
+        if (line.trim() && !/^\s/.test(line) && !LIST_ITEM_REGEX.test(line)) listStack.length = 0;
+
+        // Fenced code blocks (``` or ~~~), before any other Markdown parsing
+        const fenceMatch = line.match(/^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/);
+        if (fenceMatch) {
+            const closingFence = new RegExp(`^\\s*${fenceMatch[2][0]}{${fenceMatch[2].length},}\\s*$`);
+            const fenceIndent = new RegExp(`^ {0,${fenceMatch[1].length}}`);
+            const codeLines: { text: string, line: number }[] = [];
+            let tempI = i + 1;
+            // An unclosed fence runs to the end of the note
+            while (tempI < lines.length && !closingFence.test(lines[tempI])) {
+                codeLines.push({ text: lines[tempI].replace(/\s+$/, '').replace(fenceIndent, '').replace(/\t/g, '    '), line: firstLine + tempI });
+                tempI++;
+            }
+            blocks.push({ type: 'code', line: lineNumber, language: fenceMatch[3] || '', lines: codeLines });
+            i = tempI; continue;
+        }
+
+        // Display math spanning several lines ($$ on its own line, the formula, then $$)
+        const mathOpen = line.trim().match(/^\$\$(.*)$/);
+        if (mathOpen && !mathOpen[1].includes('$$')) {
+            const texLines = [mathOpen[1]];
+            let tempI = i + 1;
+            while (tempI < lines.length && !lines[tempI].includes('$$')) texLines.push(lines[tempI++]);
+            if (tempI < lines.length) texLines.push(lines[tempI].substring(0, lines[tempI].indexOf('$$')));
+            blocks.push({ type: 'math', line: lineNumber, tex: texLines.join('\n').trim() });
+            i = tempI; continue;
+        }
+
+        // Footnote definitions are printed with the footnotes
+        if (FOOTNOTE_DEFINITION_REGEX.test(line)) {
+            while (i + 1 < lines.length && FOOTNOTE_CONTINUATION_REGEX.test(lines[i + 1])) i++;
+            continue;
+        }
+
+        if (PAGE_BREAK_REGEX.test(line)) {
+            blocks.push({ type: 'pageBreak', line: lineNumber });
+            continue;
+        }
+
+        // Remove block IDs (^identifier)
+        line = line.replace(/\s+\^[a-zA-Z0-9-]+$/, '');
+
+        // Callouts and blockquotes (> [!info]); their content is parsed like the rest of the note
+        if (line.trim().startsWith('>')) {
+            const quoteLines: string[] = [];
+            let tempI = i;
+            while (tempI < lines.length && lines[tempI].trim().startsWith('>')) {
+                quoteLines.push(lines[tempI].trim().replace(/^>\s?/, ''));
+                tempI++;
+            }
+            const calloutMatch = quoteLines[0].match(/^\[!([^\]]+)\]([+-]?)\s*(.*)$/);
+            const quote: QuoteBlock = { type: 'quote', line: lineNumber, children: [] };
+            if (calloutMatch) quote.callout = { type: calloutMatch[1], fold: calloutMatch[2], title: calloutMatch[3].trim() };
+            const contentStart = calloutMatch ? 1 : 0;
+            quote.children = parseMarkdown(quoteLines.slice(contentStart), { footnotes, source, firstLine: lineNumber + contentStart, inQuote: true });
+            blocks.push(quote);
+            i = tempI - 1; continue;
+        }
+
+        // Tables: a header row followed by a delimiter row
+        const tableAlignment = line.trim().startsWith('|') && i + 1 < lines.length ? parseTableAlignment(splitTableRow(lines[i + 1])) : null;
+        if (tableAlignment) {
+            const tableRows: string[][] = [splitTableRow(line)];
+            let tempI = i + 2;
+            while (tempI < lines.length && lines[tempI].trim().startsWith('|')) {
+                tableRows.push(splitTableRow(lines[tempI]));
+                tempI++;
+            }
+            const columnCount = Math.max(tableAlignment.length, ...tableRows.map(row => row.length));
+            const rows = tableRows.map(row => Array.from({ length: columnCount }, (_, c) => parseTableCell(row[c] || '')));
+            blocks.push({ type: 'table', line: lineNumber, alignments: tableAlignment, rows });
+            i = tempI - 1; continue;
+        }
+
+        // Horizontal rules (---, ***, ___)
+        if (/^ {0,3}([-*_])( *\1){2,} *$/.test(line)) {
+            blocks.push({ type: 'rule', line: lineNumber });
+            continue;
+        }
+
+        const headingMatch = line.match(/^(#{1,6})\s+(.*)/);
+        if (headingMatch) {
+            blocks.push({ type: 'heading', line: lineNumber, level: headingMatch[1].length, text: headingMatch[2] });
+            continue;
+        }
+
+        const paragraph: ParagraphBlock = { type: 'paragraph', line: lineNumber, indent: 0, inlines: [] };
+        const listMatch = line.match(LIST_ITEM_REGEX);
+        const indentMatch = !listMatch ? line.match(/^(\s+)(.*)/) : null;
+        let textContent = line;
+        let isTaskDone = false;
+
+        if (listMatch) {
+            const indent = listMatch[1].replace(/\t/g, '    ').length;
+            textContent = listMatch[3];
+            paragraph.indent = indent;
+
+            // Ordered lists are numbered from their first item, whatever numbers follow it
+            const ordered = /\d/.test(listMatch[2]);
+            while (listStack.length > 0 && listStack[listStack.length - 1].indent > indent) listStack.pop();
+            let level = listStack[listStack.length - 1];
+            if (!level || level.indent < indent) {
+                level = { indent, number: 0, ordered };
+                listStack.push(level);
+            }
+            level.number = ordered && level.ordered && level.number > 0 ? level.number + 1 : parseInt(listMatch[2]) || 0;
+            level.ordered = ordered;
+
+            const taskMatch = textContent.match(/^\[(.)\](?:\s+|$)(.*)/);
+            if (taskMatch) {
+                paragraph.list = { type: 'task', state: taskMatch[1] };
+                textContent = taskMatch[2];
+                isTaskDone = ['x', 'X', '-'].includes(taskMatch[1]);
+            } else if (ordered) {
+                paragraph.list = { type: 'number', label: `${level.number}${listMatch[2].slice(-1)}` };
+            } else {
+                paragraph.list = { type: 'bullet', depth: listStack.length - 1 };
+            }
+        } else if (indentMatch) {
+            textContent = indentMatch[2];
+            paragraph.indent = indentMatch[1].replace(/\t/g, '    ').length;
+        }
+
+        // Split the text into parts and embeds (![[...]] and ![alt](...))
+        for (const part of textContent.split(/(!\[\[.*?\]\]|!\[[^\]]*\]\([^)]*\))/g)) {
+            if (part.startsWith('![')) paragraph.inlines.push({ type: 'embed', source: part, ...parseImageEmbed(part) });
+            else if (part.length > 0) paragraph.inlines.push(...parseInlines(part, footnotes, source, isTaskDone));
+        }
+        blocks.push(paragraph);
+    }
+    return blocks;
+}
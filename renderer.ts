@@ -0,0 +1,117 @@
+import { jsPDF } from "jspdf";
+import { Box, DocumentLayout, FontSpec, HeadingEntry, TextMeasurer } from './layout';
+import { LoadedImage } from './parser';
+import { drawSvg } from './mathsvg';
+import { drawDiagramSvg } from './diagramsvg';
+
+export interface RenderOptions {
+    background: number[];
+    // Font for the text in diagrams
+    font: string;
+    showOutline: boolean;
+    // Adds a content image, e.g. recompressed and embedded once per file; by default images are added as they are
+    addImage?: (image: LoadedImage, x: number, y: number, width: number, height: number, background: number[]) => Promise<void>;
+}
+
+/**
+ * Measures text with the document's fonts (including the fallback fonts installed on it).
+ */
+export function createMeasurer(doc: jsPDF): TextMeasurer {
+    const setFont = (font: FontSpec) => {
+        doc.setFont(font.family, font.style);
+        doc.setFontSize(font.size);
+    };
+    return {
+        width: (text, font) => { setFont(font); return doc.getTextWidth(text); },
+        split: (text, width, font) => { setFont(font); return doc.splitTextToSize(text, width); }
+    };
+}
+
+/**
+ * Adds the PDF outline (bookmarks), nested by heading level.
+ */
+function addOutline(doc: jsPDF, headings: HeadingEntry[]) {
+    const parents: { level: number, item: any }[] = [];
+    for (const heading of headings) {
+        while (parents.length > 0 && parents[parents.length - 1].level >= heading.level) parents.pop();
+        const parent = parents.length > 0 ? parents[parents.length - 1].item : null;
+        parents.push({ level: heading.level, item: doc.outline.add(parent, heading.text, { pageNumber: heading.page }) });
+    }
+}
+
+async function drawBox(doc: jsPDF, box: Box, options: RenderOptions) {
+    switch (box.type) {
+        case 'text':
+            doc.setFont(box.font.family, box.font.style);
+            doc.setFontSize(box.font.size);
+            doc.setTextColor(box.color[0], box.color[1], box.color[2]);
+            doc.text(box.text, box.x, box.y, box.align ? { align: box.align } : undefined);
+            break;
+        case 'rect': {
+            if (box.fill) doc.setFillColor(box.fill[0], box.fill[1], box.fill[2]);
+            if (box.stroke) doc.setDrawColor(box.stroke[0], box.stroke[1], box.stroke[2]);
+            if (box.lineWidth !== undefined) doc.setLineWidth(box.lineWidth);
+            if (box.dash) doc.setLineDashPattern(box.dash, 0);
+            const style = box.fill && box.stroke ? 'FD' : (box.fill ? 'F' : 'S');
+            if (box.radius) doc.roundedRect(box.x, box.y, box.width, box.height, box.radius, box.radius, style);
+            else doc.rect(box.x, box.y, box.width, box.height, style);
+            if (box.dash) doc.setLineDashPattern([], 0);
+            break;
+        }
+        case 'line':
+            doc.setDrawColor(box.color[0], box.color[1], box.color[2]);
+            doc.setLineWidth(box.width);
+            if (box.dash) doc.setLineDashPattern(box.dash, 0);
+            doc.line(box.x1, box.y1, box.x2, box.y2);
+            if (box.dash) doc.setLineDashPattern([], 0);
+            break;
+        case 'circle':
+            if (box.fill) doc.setFillColor(box.fill[0], box.fill[1], box.fill[2]);
+            if (box.stroke) doc.setDrawColor(box.stroke[0], box.stroke[1], box.stroke[2]);
+            if (box.lineWidth !== undefined) doc.setLineWidth(box.lineWidth);
+            doc.circle(box.x, box.y, box.radius, box.fill ? 'F' : 'S');
+            break;
+        case 'polyline': {
+            // doc.lines takes each point relative to the one before
+            const segments = box.points.slice(1).map((point, k) => [point[0] - box.points[k][0], point[1] - box.points[k][1]]);
+            doc.setDrawColor(box.color[0], box.color[1], box.color[2]);
+            doc.setLineWidth(box.width);
+            doc.lines(segments, box.points[0][0], box.points[0][1], [1, 1], 'S');
+            break;
+        }
+        case 'image':
+            if (box.background && options.addImage) await options.addImage(box.image, box.x, box.y, box.width, box.height, box.background);
+            else doc.addImage(box.image.data, box.image.format, box.x, box.y, box.width, box.height);
+            break;
+        case 'math': {
+            const math = box.render;
+            if (math.svg) drawSvg(doc, math.svg, box.x, box.y, box.em / 1000, box.color);
+            else if (math.image) doc.addImage(math.image, 'PNG', box.x, box.y - math.height * box.em, math.width * box.em, (math.height + math.depth) * box.em);
+            break;
+        }
+        case 'diagram':
+            if (box.render.svg) drawDiagramSvg(doc, box.render.svg, box.x, box.y, box.width, box.height, options.font);
+            else if (box.render.image) doc.addImage(box.render.image, 'PNG', box.x, box.y, box.width, box.height);
+            break;
+        case 'link':
+            if (box.url) doc.link(box.x, box.y, box.width, box.height, { url: box.url });
+            else if (box.page !== undefined) doc.link(box.x, box.y, box.width, box.height, { pageNumber: box.page, top: box.top });
+            break;
+    }
+}
+
+/**
+ * Draws a layout into a new document: its first page is the document's first page, the others are added
+ * at their own size. Every page gets the background color first.
+ */
+export async function renderLayout(doc: jsPDF, layout: DocumentLayout, options: RenderOptions) {
+    const background = options.background;
+    for (let i = 0; i < layout.pages.length; i++) {
+        const page = layout.pages[i];
+        if (i > 0) doc.addPage([page.width, page.height], page.width > page.height ? 'l' : 'p');
+        doc.setFillColor(background[0], background[1], background[2]);
+        doc.rect(0, 0, page.width, page.height, 'F');
+        for (const box of page.boxes) await drawBox(doc, box, options);
+    }
+    if (options.showOutline) addOutline(doc, layout.headings);
+}
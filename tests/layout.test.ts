@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { jsPDF } from 'jspdf';
+import { Block, LoadedImage, parseMarkdown } from '../parser';
+import { Box, DocumentLayout, LayoutOptions, layoutDocument } from '../layout';
+import { createMeasurer } from '../renderer';
+
+// Golden files hold each page's boxes, one line per box. Run with UPDATE_GOLDEN=1 to write new ones or rewrite them after an
+// intended layout change, and review the diff.
+const GOLDEN_DIR = path.join(process.env.TESTS_DIR || __dirname, 'golden');
+
+const OPTIONS: LayoutOptions = {
+    pageWidth: 210,
+    pageHeight: 297,
+    margins: { top: 20, right: 20, bottom: 20, left: 20 },
+    font: 'helvetica',
+    theme: { dark: false, text: [0, 0, 0], background: [255, 255, 255], link: [0, 0, 255], colors: {}, backgrounds: {} },
+    merged: false,
+    showTitle: true,
+    showToc: false,
+    showLineNumbers: false,
+    breakLines: [],
+    breakBeforeLevel: 0,
+    keepHeadingsWithNext: true,
+    footnotePlacement: 'page',
+    wideTables: 'wrap'
+};
+
+function layout(markdown: string, options: Partial<LayoutOptions> = {}, prepare?: (blocks: Block[]) => void): DocumentLayout {
+    const blocks = parseMarkdown(markdown.split('\n'));
+    if (prepare) prepare(blocks);
+    return layoutDocument([{ title: 'Test', blocks }], { ...OPTIONS, ...options }, createMeasurer(new jsPDF({ unit: 'mm', format: 'a4' })));
+}
+
+const round = (n: number) => String(Math.round(n * 100) / 100);
+
+function describeBox(box: Box): string {
+    switch (box.type) {
+        case 'text': return `text ${round(box.x)},${round(box.y)} ${box.font.style} ${box.font.size}${box.align ? ' ' + box.align : ''} "${box.text}"`;
+        case 'rect': return `rect ${[box.x, box.y, box.width, box.height].map(round).join(',')}${box.fill ? ' fill' : ''}${box.stroke ? ' stroke' : ''}`;
+        case 'line': return `line ${[box.x1, box.y1, box.x2, box.y2].map(round).join(',')}`;
+        case 'circle': return `circle ${round(box.x)},${round(box.y)} r${round(box.radius)}`;
+        case 'polyline': return `polyline ${box.points.map(point => point.map(round).join(',')).join(' ')}`;
+        case 'image': return `image ${[box.x, box.y, box.width, box.height].map(round).join(',')} ${box.image.source || ''}`;
+        case 'link': return `link ${[box.x, box.y, box.width, box.height].map(round).join(',')} ${box.url || 'page ' + box.page}`;
+        default: return `${box.type} ${round(box.x)},${round(box.y)}`;
+    }
+}
+
+function snapshot(result: DocumentLayout): string {
+    const pages = result.pages.map((page, index) => [`page ${index + 1} ${round(page.width)}x${round(page.height)}`]
+        .concat(page.boxes.map(box => '  ' + describeBox(box))).join('\n'));
+    return pages.join('\n') + '\n';
+}
+
+function assertGolden(name: string, result: DocumentLayout) {
+    const file = path.join(GOLDEN_DIR, `${name}.txt`);
+    const actual = snapshot(result);
+    if (process.env.UPDATE_GOLDEN) {
+        fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+        fs.writeFileSync(file, actual);
+        return;
+    }
+    if (!fs.existsSync(file)) assert.fail(`Missing golden file ${name}.txt, run the tests with UPDATE_GOLDEN=1 to create it`);
+    assert.equal(actual, fs.readFileSync(file, 'utf8'));
+}
+
+test('headings', () => {
+    const result = layout('# Title\n\nIntro paragraph.\n\n## Section\n\nText with **bold** and *italic*.\n\n### Sub-section\n\nMore text.');
+    assert.deepEqual(result.headings.map(h => `${h.level} ${h.text}`), ['1 Title', '2 Section', '3 Sub-section']);
+    assertGolden('headings', result);
+});
+
+test('lists', () => {
+    const result = layout('- one\n- two\n    - nested\n1. first\n2. second\n- [ ] open task\n- [x] done task');
+    assertGolden('lists', result);
+});
+
+test('tables', () => {
+    const result = layout('| Name | Count | Note |\n| :--- | :---: | ---: |\n| apples | 3 | **fresh** |\n| pears | 12 | a longer note that is wrapped inside its cell once it no longer fits on one line of the page, which takes a fair amount of text |');
+    assertGolden('tables', result);
+});
+
+test('wide tables on a landscape page', () => {
+    const header = Array.from({ length: 12 }, (_, i) => `Column ${i + 1}`);
+    const markdown = `Before\n\n| ${header.join(' | ')} |\n| ${header.map(() => '---').join(' | ')} |\n| ${header.map(() => 'value').join(' | ')} |\n\nAfter`;
+    const result = layout(markdown, { wideTables: 'landscape' });
+    assert.deepEqual(result.pages.map(page => page.width > page.height), [false, true, false]);
+});
+
+test('wide table at the end of a note', () => {
+    const header = Array.from({ length: 12 }, (_, i) => `Column ${i + 1}`);
+    const result = layout(`Before\n\n| ${header.join(' | ')} |\n| ${header.map(() => '---').join(' | ')} |\n| ${header.map(() => 'value').join(' | ')} |\n\n`, { wideTables: 'landscape' });
+    // No blank portrait page after the table
+    assert.deepEqual(result.pages.map(page => page.width > page.height), [false, true]);
+    assertGolden('landscape-table-end', result);
+});
+
+test('images', () => {
+    const image: LoadedImage = { data: 'data:image/png;base64,', format: 'PNG', width: 800, height: 400, source: 'photo.png' };
+    const result = layout('Before\n\n![[photo.png|caption text|300]]\n\nAfter', {}, blocks => {
+        for (const block of blocks) {
+            if (block.type !== 'paragraph') continue;
+            for (const inline of block.inlines) if (inline.type === 'embed') inline.image = image;
+        }
+    });
+    const boxes = result.pages[0].boxes.filter(box => box.type === 'image');
+    assert.equal(boxes.length, 1);
+    assertGolden('images', result);
+});
+
+test('page breaks', () => {
+    const result = layout('First page\n\n\\pagebreak\n\nSecond page\n\n<div style="page-break-after: always;"></div>\n\nThird page');
+    assert.equal(result.pages.length, 3);
+    assertGolden('page-breaks', result);
+});
+
+test('break lines from the settings', () => {
+    const result = layout('one\ntwo\nthree\nfour', { breakLines: [3] });
+    assert.equal(result.pages.length, 2);
+});
+
+test('words longer than a line are broken', () => {
+    const measurer = createMeasurer(new jsPDF({ unit: 'mm', format: 'a4' }));
+    const word = 'x'.repeat(150);
+    const result = layout(`Before ${word} after`);
+    const boxes = result.pages[0].boxes.filter(box => box.type === 'text' && box.font.style === 'normal');
+    assert.equal(boxes.map(box => box.type === 'text' ? box.text : '').join('').replace(/\s/g, ''), `Before${word}after`);
+    for (const box of boxes) {
+        if (box.type === 'text') assert.ok(box.x + measurer.width(box.text, box.font) <= OPTIONS.pageWidth - OPTIONS.margins.right + 0.01);
+    }
+    // "Before" keeps its line, the word starts on the next one
+    assert.equal(boxes[0].type === 'text' && boxes[0].text, 'Before');
+});
+
+test('long notes flow onto new pages', () => {
+    const result = layout(Array.from({ length: 80 }, (_, i) => `Paragraph ${i + 1}\n`).join('\n'));
+    assert.ok(result.pages.length > 1);
+    for (const page of result.pages) {
+        for (const box of page.boxes) if (box.type === 'text') assert.ok(box.y <= OPTIONS.pageHeight - OPTIONS.margins.bottom);
+    }
+});
+
+test('source lines', () => {
+    const result = layout('# Title\n\nFirst\n\n```js\nlet a = 1;\nlet b = 2;\n```\n\n\\pagebreak\n\nLast');
+    const lines = result.sourceLines.map(p => `${p.line}@${p.page}:${Math.round(p.y)}`);
+    // Empty lines are paragraphs too; the page break is where it was hit, code lines have their own rows
+    assert.deepEqual(lines, ['0@1:43', '1@1:52', '2@1:58', '3@1:64', '4@1:70', '5@1:76', '6@1:80', '8@1:90', '9@1:96', '10@2:20', '11@2:26']);
+});
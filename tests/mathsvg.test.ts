@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PathSegment, parsePath } from '../mathsvg';
+
+// Point of a cubic curve segment starting at (x, y)
+function pointAt(x: number, y: number, segment: PathSegment, t: number): number[] {
+    const [x1, y1, x2, y2, x3, y3] = segment.c;
+    const u = 1 - t;
+    return [
+        u * u * u * x + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+        u * u * u * y + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3
+    ];
+}
+
+function assertOnCircle(segments: PathSegment[], start: number[], center: number[], radius: number) {
+    let [x, y] = start;
+    for (const segment of segments) {
+        assert.equal(segment.op, 'c');
+        for (const t of [0.25, 0.5, 0.75]) {
+            const [px, py] = pointAt(x, y, segment, t);
+            assert.ok(Math.abs(Math.hypot(px - center[0], py - center[1]) - radius) < radius * 0.001, `${px},${py} is off the circle`);
+        }
+        [x, y] = segment.c.slice(4);
+    }
+}
+
+test('arcs become cubic curves', () => {
+    const segments = parsePath('M 0 0 A 10 10 0 0 1 20 0');
+    assert.equal(segments[0].op, 'm');
+    const curves = segments.slice(1);
+    // A half circle takes two quarter turns, the first ending at the top (y points down)
+    assert.equal(curves.length, 2);
+    assert.deepEqual(curves[0].c.slice(4).map(n => Math.round(n * 1000) / 1000), [10, -10]);
+    assert.deepEqual(curves[1].c.slice(4), [20, 0]);
+    assertOnCircle(curves, [0, 0], [10, 0], 10);
+});
+
+test('relative arcs with the flags run together', () => {
+    const segments = parsePath('M 5 5 a5 5 0 1010 0');
+    const curves = segments.slice(1);
+    // Counter-clockwise half circle, through the bottom
+    assert.equal(curves.length, 2);
+    assert.deepEqual(curves[0].c.slice(4).map(n => Math.round(n * 1000) / 1000), [10, 10]);
+    assert.deepEqual(curves[1].c.slice(4), [15, 5]);
+    assertOnCircle(curves, [5, 5], [10, 5], 5);
+});
+
+test('arcs with radii too small to reach the end point are scaled up', () => {
+    const curves = parsePath('M 0 0 A 1 1 0 0 1 20 0').slice(1);
+    assertOnCircle(curves, [0, 0], [10, 0], 10);
+});
+
+test('arcs with a zero radius are straight lines', () => {
+    assert.deepEqual(parsePath('M 0 0 A 0 5 0 0 1 20 0 L 20 10'), [
+        { op: 'm', c: [0, 0] }, { op: 'l', c: [20, 0] }, { op: 'l', c: [20, 10] }
+    ]);
+});
@@ -0,0 +1,32 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Bundles each test file for Node (jsPDF included) and runs them with the built-in test runner
+
+const testsDir = path.dirname(fileURLToPath(import.meta.url));
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "pdf-tests-"));
+const entryPoints = fs.readdirSync(testsDir).filter(file => file.endsWith(".test.ts")).map(file => path.join(testsDir, file));
+
+try {
+	await esbuild.build({
+		entryPoints,
+		outdir: outDir,
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node18",
+		logLevel: "warning",
+	});
+	const files = fs.readdirSync(outDir).filter(file => file.endsWith(".js")).map(file => path.join(outDir, file));
+	const result = spawnSync(process.execPath, ["--test", ...files], {
+		stdio: "inherit",
+		env: { ...process.env, TESTS_DIR: testsDir },
+	});
+	process.exitCode = result.status === null ? 1 : result.status;
+} finally {
+	fs.rmSync(outDir, { recursive: true, force: true });
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { definesMacros, resetTexSvg, texSvgMacros, texToSvg } from '../texsvg';
+
+test('formulas become SVG paths', () => {
+    const result = texToSvg('x^2 + \\frac{1}{2}', false);
+    assert.match(result.markup, /^<svg[^>]* viewBox="/);
+    assert.match(result.markup, /<path [^>]*d="M/);
+    assert.doesNotMatch(result.markup, /<use /);
+    // The fraction reaches above the x-height and below the baseline
+    assert.ok(result.width > 0 && result.height > 0.5 && result.depth > 0);
+});
+
+test('display formulas', () => {
+    const inline = texToSvg('\\sum_{i=1}^n i', false);
+    const display = texToSvg('\\sum_{i=1}^n i', true);
+    // The limits go above and below the sum in display style
+    assert.ok(display.height + display.depth > inline.height + inline.depth);
+});
+
+test('macros defined in one formula work in the next, until a reset', () => {
+    resetTexSvg();
+    const definition = '\\newcommand{\\half}{\\frac{1}{2}}';
+    assert.ok(definesMacros(definition));
+    texToSvg(definition, false);
+    assert.equal(texSvgMacros(), definition + '\n');
+    assert.ok(texToSvg('\\half', false).width > 0);
+    resetTexSvg();
+    assert.equal(texSvgMacros(), '');
+    assert.throws(() => texToSvg('\\half', false));
+});
+
+test('errors throw', () => {
+    assert.throws(() => texToSvg('\\frac{1}', false));
+    assert.throws(() => texToSvg('\\notamacro', false));
+    // Packages that aren't bundled, left to Obsidian's MathJax
+    assert.throws(() => texToSvg('\\ce{H2O}', false));
+});
@@ -0,0 +1,87 @@
+import type { LiteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js';
+import type { MathDocument } from 'mathjax-full/js/core/MathDocument.js';
+
+// A formula as SVG markup, sized in ems: MathJax draws 1000 units per em, with the baseline at y = 0
+export interface TexSvg {
+    markup: string;
+    width: number;
+    height: number;
+    depth: number;
+}
+
+// The common TeX packages; formulas that need others fail here and are rendered by Obsidian instead
+const PACKAGES = ['base', 'ams', 'newcommand', 'boldsymbol', 'color', 'cancel', 'braket'];
+
+const DEFINITION_REGEX = /\\(?:(?:re|provide|new)command|(?:re)?newenvironment|def|let|DeclareMathOperator)(?![a-zA-Z])/;
+
+let adaptor: LiteAdaptor | null = null;
+let mathDocument: MathDocument<any, any, any> | null = null;
+// The formulas that defined macros since the last reset
+let definitions = '';
+
+/**
+ * Sets up MathJax for the first formula. It is required only then, so its glyph outlines (most of the
+ * plugin's size) aren't evaluated while Obsidian starts.
+ */
+function createDocument(): MathDocument<any, any, any> {
+    const { mathjax } = require('mathjax-full/js/mathjax.js') as typeof import('mathjax-full/js/mathjax.js');
+    const { TeX } = require('mathjax-full/js/input/tex.js') as typeof import('mathjax-full/js/input/tex.js');
+    const { SVG } = require('mathjax-full/js/output/svg.js') as typeof import('mathjax-full/js/output/svg.js');
+    require('mathjax-full/js/input/tex/base/BaseConfiguration.js');
+    require('mathjax-full/js/input/tex/ams/AmsConfiguration.js');
+    require('mathjax-full/js/input/tex/newcommand/NewcommandConfiguration.js');
+    require('mathjax-full/js/input/tex/boldsymbol/BoldsymbolConfiguration.js');
+    require('mathjax-full/js/input/tex/color/ColorConfiguration.js');
+    require('mathjax-full/js/input/tex/cancel/CancelConfiguration.js');
+    require('mathjax-full/js/input/tex/braket/BraketConfiguration.js');
+    if (!adaptor) {
+        const { liteAdaptor } = require('mathjax-full/js/adaptors/liteAdaptor.js') as typeof import('mathjax-full/js/adaptors/liteAdaptor.js');
+        const { RegisterHTMLHandler } = require('mathjax-full/js/handlers/html.js') as typeof import('mathjax-full/js/handlers/html.js');
+        adaptor = liteAdaptor();
+        RegisterHTMLHandler(adaptor);
+    }
+    return mathjax.document('', {
+        // Errors should fail the formula rather than be typeset in red
+        InputJax: new TeX({ packages: PACKAGES, formatError: (_jax: unknown, error: Error) => { throw error; } }),
+        // Glyph outlines inline in each formula, no shared <defs> to resolve
+        OutputJax: new SVG({ fontCache: 'none' })
+    });
+}
+
+/**
+ * Forgets the macros formulas defined with \newcommand and the like, so they don't carry over from one
+ * export to the next.
+ */
+export function resetTexSvg() {
+    mathDocument = null;
+    definitions = '';
+}
+
+/**
+ * Whether a formula defines macros that later formulas may use.
+ */
+export function definesMacros(tex: string): boolean {
+    return DEFINITION_REGEX.test(tex);
+}
+
+/**
+ * The formulas that defined macros since the last reset, which the SVG of any later formula may depend on.
+ */
+export function texSvgMacros(): string {
+    return definitions;
+}
+
+/**
+ * Typesets TeX as SVG with MathJax's own TeX and SVG jax. Obsidian only ships MathJax's HTML output, which
+ * can't be drawn as vectors. Everything stays in memory (the lite adaptor needs no DOM), and \newcommand
+ * definitions carry over to later formulas until the next reset. Throws on TeX errors.
+ */
+export function texToSvg(tex: string, display: boolean): TexSvg {
+    if (!mathDocument) mathDocument = createDocument();
+    const lite = adaptor as LiteAdaptor;
+    const svg = lite.firstChild(mathDocument.convert(tex, { display }));
+    if (definesMacros(tex)) definitions += tex + '\n';
+    const viewBox = (lite.getAttribute(svg as any, 'viewBox') || '').split(/[\s,]+/).map(parseFloat);
+    if (viewBox.length !== 4 || viewBox.some(isNaN)) throw new Error(`No SVG for ${tex}`);
+    return { markup: lite.outerHTML(svg as any), width: viewBox[2] / 1000, height: -viewBox[1] / 1000, depth: (viewBox[1] + viewBox[3]) / 1000 };
+}